@@ -0,0 +1,182 @@
+import { assembleFeatureVector, resolveColumn, FeatureSchema, FeatureValues } from './features';
+import { escapeHtml } from './html';
+import { PredictionOutput } from './types';
+
+// Batch classification of catalog exports (NASA Exoplanet Archive CSV/TSV)
+
+export interface CatalogTable {
+  columns: string[];
+  rows: { [column: string]: string }[];
+  delimiter: string;
+}
+
+export interface BatchRow {
+  label: string;
+  result: PredictionOutput;
+}
+
+// Rows per inference tensor
+export const BATCH_SIZE = 256;
+
+// Identifier columns used to label rows, in order of preference
+const ID_COLUMNS = ['toi', 'kepoi_name', 'epic_candname', 'pl_name', 'kepler_name', 'tid', 'kepid', 'epic_hostname', 'hostname'];
+
+export function parseCatalog(text: string): CatalogTable {
+  // Archive exports start with '#' comment lines describing the columns
+  const lines = text
+    .split(/\r?\n/)
+    .filter(line => line.trim() !== '' && !line.startsWith('#'));
+
+  if (lines.length < 2) {
+    throw new Error('Catalog needs a header row and at least one data row');
+  }
+
+  const delimiter = lines[0].includes('\t') ? '\t' : lines[0].includes(';') && !lines[0].includes(',') ? ';' : ',';
+  const columns = splitLine(lines[0], delimiter).map(column => column.trim());
+
+  const rows = lines.slice(1).map(line => {
+    const cells = splitLine(line, delimiter);
+    const row: { [column: string]: string } = {};
+    columns.forEach((column, index) => {
+      row[column] = (cells[index] ?? '').trim();
+    });
+    return row;
+  });
+
+  return { columns, rows, delimiter };
+}
+
+// Split one delimited line, honouring double-quoted cells
+function splitLine(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current);
+  return cells;
+}
+
+export function catalogRowValues(row: { [column: string]: string }): FeatureValues {
+  const values: FeatureValues = {};
+  for (const [column, cell] of Object.entries(row)) {
+    if (cell === '') continue;
+    const value = Number(cell);
+    if (Number.isFinite(value)) {
+      values[column] = value;
+    }
+  }
+  return values;
+}
+
+export function catalogRowLabel(row: { [column: string]: string }, index: number): string {
+  for (const column of ID_COLUMNS) {
+    if (row[column]) {
+      return column === 'toi' ? `TOI-${row[column]}` : row[column];
+    }
+  }
+  return `Row ${index + 1}`;
+}
+
+// Catalog columns that land in the model's feature vector
+export function matchedColumns(schema: FeatureSchema, columns: string[]): string[] {
+  return columns.filter(column => resolveColumn(schema, column) !== null);
+}
+
+// Stack every row into one [rows, features] buffer for a single tensor
+export function buildBatchMatrix(schema: FeatureSchema, rows: { [column: string]: string }[]): Float32Array {
+  const data = new Float32Array(rows.length * schema.feature_count);
+  rows.forEach((row, index) => {
+    const { vector } = assembleFeatureVector(schema, catalogRowValues(row));
+    data.set(vector, index * schema.feature_count);
+  });
+  return data;
+}
+
+type SortKey = 'label' | 'class' | 'confidence' | number;
+
+export class BatchResultsTable {
+  private sortKey: SortKey = 'confidence';
+  private sortDescending = true;
+
+  constructor(
+    private container: HTMLElement,
+    private rows: BatchRow[],
+    private classNames: string[]
+  ) {
+    this.container.addEventListener('click', (e) => {
+      const header = (e.target as HTMLElement).closest('th[data-sort]') as HTMLElement | null;
+      if (!header) return;
+
+      const key = header.dataset.sort!;
+      const nextKey: SortKey = /^\d+$/.test(key) ? Number(key) : key as SortKey;
+      this.sortDescending = this.sortKey === nextKey ? !this.sortDescending : nextKey !== 'label';
+      this.sortKey = nextKey;
+      this.render();
+    });
+  }
+
+  render() {
+    const sorted = [...this.rows].sort((a, b) => {
+      const order = this.compare(a, b);
+      return this.sortDescending ? -order : order;
+    });
+
+    const arrow = (key: SortKey) => this.sortKey === key ? (this.sortDescending ? ' ▼' : ' ▲') : '';
+
+    this.container.innerHTML = `
+      <table class="batch-table">
+        <thead>
+          <tr>
+            <th data-sort="label">Object${arrow('label')}</th>
+            <th data-sort="class">Predicted Class${arrow('class')}</th>
+            ${this.classNames.map((name, index) => `<th data-sort="${index}">P(${name})${arrow(index)}</th>`).join('')}
+            <th data-sort="confidence">Confidence${arrow('confidence')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${sorted.map(row => `
+            <tr>
+              <td>${escapeHtml(row.label)}</td>
+              <td>${this.classNames[row.result.classIndex] ?? row.result.classIndex}</td>
+              ${row.result.probabilities.map(prob => `<td>${(prob * 100).toFixed(1)}%</td>`).join('')}
+              <td>${row.result.confidence.toFixed(1)}%</td>
+            </tr>
+          `).join('')}
+        </tbody>
+      </table>
+    `;
+  }
+
+  private compare(a: BatchRow, b: BatchRow): number {
+    if (this.sortKey === 'label') {
+      return a.label.localeCompare(b.label, undefined, { numeric: true });
+    }
+    if (this.sortKey === 'class') {
+      return a.result.classIndex - b.result.classIndex;
+    }
+    if (this.sortKey === 'confidence') {
+      return a.result.confidence - b.result.confidence;
+    }
+    return (a.result.probabilities[this.sortKey] ?? 0) - (b.result.probabilities[this.sortKey] ?? 0);
+  }
+}
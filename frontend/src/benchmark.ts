@@ -0,0 +1,93 @@
+import { BATCH_SIZE } from './batch';
+import { assembleFeatureVector, FeatureSchema } from './features';
+import { escapeHtml } from './html';
+import { InferenceClient } from './inference-client';
+import { manifestUrl, ModelManifest } from './manifest';
+import { RuntimeConfig } from './runtime';
+
+// In-browser timing of the bundled models under different runtime configurations.
+// Each configuration gets its own worker, since ONNX Runtime fixes its flags per instance.
+
+export interface BenchmarkResult {
+  config: RuntimeConfig;
+  loadMs: number;
+  singleMs: number; // median latency of one-row predictions
+  rowsPerSecond: number; // best of the batch repeats
+  error?: string;
+}
+
+const SINGLE_RUNS = 20;
+const BATCH_ROWS = 2048;
+const BATCH_REPEATS = 3;
+
+export async function benchmarkConfig(
+  config: RuntimeConfig,
+  mission: string,
+  manifest: ModelManifest,
+  schema: FeatureSchema
+): Promise<BenchmarkResult> {
+  const client = new InferenceClient(config);
+  const result: BenchmarkResult = { config, loadMs: NaN, singleMs: NaN, rowsPerSecond: NaN };
+
+  try {
+    await client.ready;
+
+    let start = performance.now();
+    await client.load(mission, manifestUrl(mission, manifest.model.path), manifestUrl(mission, manifest.scaler.path), manifest, schema.feature_count);
+    result.loadMs = performance.now() - start;
+
+    // Every column at its default: a valid row for any mission
+    const { vector } = assembleFeatureVector(schema, {});
+    await client.predict(mission, vector); // warm-up
+
+    const latencies: number[] = [];
+    for (let i = 0; i < SINGLE_RUNS; i++) {
+      start = performance.now();
+      await client.predict(mission, vector);
+      latencies.push(performance.now() - start);
+    }
+    latencies.sort((a, b) => a - b);
+    result.singleMs = latencies[Math.floor(latencies.length / 2)];
+
+    const matrix = new Float32Array(BATCH_ROWS * schema.feature_count);
+    for (let row = 0; row < BATCH_ROWS; row++) {
+      matrix.set(vector, row * schema.feature_count);
+    }
+    let best = Infinity;
+    for (let i = 0; i < BATCH_REPEATS; i++) {
+      start = performance.now();
+      // The buffer is transferred to the worker, so send a fresh copy each time
+      await client.predictBatch(mission, matrix.slice(), BATCH_ROWS, BATCH_SIZE, () => {}).results;
+      best = Math.min(best, performance.now() - start);
+    }
+    result.rowsPerSecond = BATCH_ROWS / (best / 1000);
+  } catch (error) {
+    result.error = error instanceof Error ? error.message : String(error);
+  } finally {
+    client.dispose();
+  }
+
+  return result;
+}
+
+export function renderBenchmark(container: HTMLElement, mission: string, results: BenchmarkResult[], selected: RuntimeConfig) {
+  const format = (value: number, digits: number) => Number.isFinite(value) ? value.toFixed(digits) : '—';
+
+  container.innerHTML = `
+    <table class="batch-table diagnostics-table">
+      <thead>
+        <tr><th>Configuration (${mission.toUpperCase()})</th><th>Load (ms)</th><th>1 row (ms, median)</th><th>Rows/s (${BATCH_ROWS}-row batch)</th></tr>
+      </thead>
+      <tbody>
+        ${results.map(r => `
+          <tr class="${r.error ? 'diagnostics-fail' : ''}">
+            <td>${r.config.label}${r.config.numThreads === selected.numThreads ? ' (selected)' : ''}</td>
+            <td>${format(r.loadMs, 0)}</td>
+            <td>${r.error ? escapeHtml(r.error) : format(r.singleMs, 2)}</td>
+            <td>${format(r.rowsPerSecond, 0)}</td>
+          </tr>
+        `).join('')}
+      </tbody>
+    </table>
+  `;
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { reliability } from './calibration';
+
+// Overconfident scores: the top class always gets 0.95 but is right only 70% of the time
+const rows = 200;
+const labels = Array.from({ length: rows }, (_, i) => (i % 20 < 14 ? 0 : i % 20 < 17 ? 1 : 2));
+const probabilities = labels.map(() => [0.95, 0.025, 0.025]);
+
+describe('reliability', () => {
+  it('bins the top-class confidence against the observed accuracy', () => {
+    const result = reliability(probabilities, labels);
+    const bin = result.bins[9];
+
+    expect(result.bins).toHaveLength(10);
+    expect(bin).toMatchObject({ lower: 0.9, upper: 1, count: rows });
+    expect(bin.confidence).toBeCloseTo(0.95);
+    expect(bin.accuracy).toBeCloseTo(0.7);
+    expect(result.ece).toBeCloseTo(0.25);
+    expect(result.nll).toBeCloseTo(-0.7 * Math.log(0.95) - 0.3 * Math.log(0.025));
+  });
+
+  it('puts confidence 1 in the top bin', () => {
+    expect(reliability([[1, 0, 0]], [0]).bins[9].count).toBe(1);
+  });
+});
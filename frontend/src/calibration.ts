@@ -0,0 +1,76 @@
+// Reliability diagrams: a mission's top-class confidence against the observed accuracy on
+// its held-out split. Boosted-tree scores are often over- or under-confident and the app
+// shows them uncalibrated, so the diagram tells how far a displayed confidence holds.
+
+export interface ReliabilityBin {
+  lower: number;
+  upper: number;
+  count: number;
+  confidence: number; // mean top-class probability in the bin
+  accuracy: number; // share of the bin's rows whose top class is correct
+}
+
+export interface Reliability {
+  bins: ReliabilityBin[];
+  ece: number; // expected calibration error: count-weighted |accuracy - confidence|
+  nll: number; // mean negative log-likelihood of the true class
+}
+
+export const RELIABILITY_BINS = 10;
+// Floor for log p: gradient boosting emits exact zeros for some classes
+const MIN_PROBABILITY = 1e-7;
+
+function negativeLogLikelihood(probabilities: number[][], labels: number[]): number {
+  return probabilities.reduce((sum, p, i) => sum - Math.log(Math.max(p[labels[i]], MIN_PROBABILITY)), 0) / labels.length;
+}
+
+export function reliability(probabilities: number[][], labels: number[], binCount = RELIABILITY_BINS): Reliability {
+  const bins = Array.from({ length: binCount }, (_, b) => ({ lower: b / binCount, upper: (b + 1) / binCount, count: 0, confidence: 0, accuracy: 0 }));
+
+  probabilities.forEach((p, i) => {
+    const confidence = Math.max(...p);
+    const bin = bins[Math.min(binCount - 1, Math.floor(confidence * binCount))];
+    bin.count++;
+    bin.confidence += confidence;
+    bin.accuracy += p.indexOf(confidence) === labels[i] ? 1 : 0;
+  });
+
+  let ece = 0;
+  for (const bin of bins) {
+    if (bin.count === 0) continue;
+    bin.confidence /= bin.count;
+    bin.accuracy /= bin.count;
+    ece += bin.count / labels.length * Math.abs(bin.accuracy - bin.confidence);
+  }
+  return { bins, ece, nll: negativeLogLikelihood(probabilities, labels) };
+}
+
+export function renderReliability(container: HTMLElement, data: Reliability) {
+  const size = 260;
+  const pad = 30;
+  const x = (value: number) => pad + value * size;
+  const y = (value: number) => pad + (1 - value) * size;
+  const color = '#ff4d6d';
+  const filled = data.bins.filter(bin => bin.count > 0);
+
+  container.innerHTML = `
+    <svg class="roc-chart" viewBox="0 0 ${size + pad * 2} ${size + pad * 2}" role="img" aria-label="Reliability diagram">
+      <rect x="${pad}" y="${pad}" width="${size}" height="${size}" fill="none" stroke="rgba(255,255,255,0.3)"/>
+      <line x1="${x(0)}" y1="${y(0)}" x2="${x(1)}" y2="${y(1)}" stroke="rgba(255,255,255,0.3)" stroke-dasharray="4 4"/>
+      <polyline fill="none" stroke="${color}" stroke-width="2" points="${filled.map(bin => `${x(bin.confidence).toFixed(1)},${y(bin.accuracy).toFixed(1)}`).join(' ')}"/>
+      ${filled.map(bin => `
+        <circle cx="${x(bin.confidence).toFixed(1)}" cy="${y(bin.accuracy).toFixed(1)}" r="${Math.min(6, 2 + Math.sqrt(bin.count) / 4).toFixed(1)}" fill="${color}">
+          <title>Confidence ${(bin.lower * 100).toFixed(0)}–${(bin.upper * 100).toFixed(0)}%: ${bin.count} rows, mean ${(bin.confidence * 100).toFixed(1)}%, accuracy ${(bin.accuracy * 100).toFixed(1)}%</title>
+        </circle>
+      `).join('')}
+      <text x="${pad + size / 2}" y="${size + pad * 2 - 6}" text-anchor="middle">Predicted confidence</text>
+      <text x="10" y="${pad + size / 2}" text-anchor="middle" transform="rotate(-90 10 ${pad + size / 2})">Observed accuracy</text>
+    </svg>
+    <div class="roc-legend">
+      <span><span class="roc-swatch" style="background: ${color};"></span>Model scores: ECE ${(data.ece * 100).toFixed(2)}%, NLL ${data.nll.toFixed(3)}</span>
+    </div>
+    <div class="explanation-note">
+      Points below the diagonal are overconfident. Confidences in the app are these raw model scores; no calibration is applied.
+    </div>
+  `;
+}
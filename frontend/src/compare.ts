@@ -0,0 +1,157 @@
+import { FeatureValues } from './features';
+import { classNames, MissionForm, ModelManifest } from './manifest';
+import { PredictionOutput } from './types';
+
+// Cross-mission comparison: one set of physical parameters, every ready mission model.
+// Each manifest's `common_inputs` maps the parameters below onto its own form fields
+// (or catalog columns), which the mission's feature list then places and unit-converts.
+
+export const COMMON_FORM: MissionForm = {
+  description: 'Physical parameters shared by every mission catalog',
+  presets: [],
+  fields: [
+    { name: 'period', label: 'Orbital Period (days)', required: true, placeholder: 10.5, step: 0.1, min: 0 },
+    { name: 'duration', label: 'Transit Duration (hours)', required: true, placeholder: 3.2, step: 0.1, min: 0 },
+    { name: 'depth', label: 'Transit Depth (ppm)', required: true, placeholder: 1000, step: 1, min: 0 },
+    { name: 'planet_radius', label: 'Planet Radius (Earth radii)', required: false, placeholder: 2.1, step: 0.1, min: 0 },
+    { name: 'star_radius', label: 'Star Radius (Solar radii)', required: false, placeholder: 1.0, step: 0.01, min: 0 },
+    { name: 'star_teff', label: 'Star Teff (K)', required: false, placeholder: 5778, step: 1, min: 0 },
+    { name: 'star_logg', label: 'Star Log g (cgs)', required: false, placeholder: 4.44, step: 0.01 }
+  ]
+};
+
+export interface MissionComparison {
+  mission: string;
+  displayName: string;
+  classNames: string[];
+  weight: number; // weighted test F1 from the manifest
+  mapped: string[]; // common parameters this mission's model receives
+  result?: PredictionOutput;
+  error?: string;
+}
+
+export interface Consensus {
+  classNames: string[];
+  probabilities: number[];
+  classIndex: number;
+}
+
+// Rename common parameters to the mission's own inputs; unmapped ones are dropped
+export function mapCommonInputs(manifest: ModelManifest, values: FeatureValues): { values: FeatureValues; mapped: string[] } {
+  const mapping = manifest.common_inputs ?? {};
+  const mapped: string[] = [];
+  const missionValues: FeatureValues = {};
+
+  for (const [parameter, value] of Object.entries(values)) {
+    const target = mapping[parameter];
+    if (target && value !== null && value !== undefined) {
+      missionValues[target] = value;
+      mapped.push(parameter);
+    }
+  }
+  return { values: missionValues, mapped };
+}
+
+export function comparisonEntry(mission: string, manifest: ModelManifest, mapped: string[]): MissionComparison {
+  return {
+    mission,
+    displayName: manifest.display_name,
+    classNames: classNames(manifest),
+    weight: manifest.metrics.f1_score,
+    mapped
+  };
+}
+
+// F1-weighted mean of the per-class probabilities, matched by class name across missions
+export function weightedConsensus(rows: MissionComparison[]): Consensus | null {
+  const scored = rows.filter(row => row.result);
+  if (scored.length < 2) return null;
+
+  const names = [...new Set(scored.flatMap(row => row.classNames))];
+  const totals = new Array<number>(names.length).fill(0);
+  let weightSum = 0;
+
+  for (const row of scored) {
+    row.classNames.forEach((name, index) => {
+      totals[names.indexOf(name)] += row.weight * row.result!.probabilities[index];
+    });
+    weightSum += row.weight;
+  }
+
+  const probabilities = totals.map(total => total / weightSum);
+  return { classNames: names, probabilities, classIndex: probabilities.indexOf(Math.max(...probabilities)) };
+}
+
+export function renderComparison(container: HTMLElement, rows: MissionComparison[], consensus: Consensus | null) {
+  const scored = rows.filter(row => row.result);
+  const predicted = (row: MissionComparison) => row.classNames[row.result!.classIndex];
+
+  // Majority class among the models that ran; ties go to the class the earliest model predicted
+  const votes = new Map<string, number>();
+  scored.forEach(row => votes.set(predicted(row), (votes.get(predicted(row)) ?? 0) + 1));
+  const majority = [...votes.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+  const agree = votes.size === 1;
+
+  const names = [...new Set(rows.flatMap(row => row.classNames))];
+  const verdict = scored.length === 0
+    ? '❌ No mission model could classify this input'
+    : scored.length === 1
+      ? `ℹ️ Only ${scored[0].displayName} could classify this input`
+      : agree
+        ? `✅ All ${scored.length} models agree: ${majority}`
+        : `⚠️ Models disagree: ${[...votes.entries()].map(([name, count]) => `${count}× ${name}`).join(', ')}`;
+
+  container.innerHTML = `
+    <div class="compare-verdict ${agree || scored.length < 2 ? 'compare-agree' : 'compare-disagree'}">${verdict}</div>
+    <table class="batch-table compare-table">
+      <thead>
+        <tr>
+          <th>Model</th>
+          <th>Prediction</th>
+          ${names.map(name => `<th>P(${name})</th>`).join('')}
+          <th>Inputs used</th>
+        </tr>
+      </thead>
+      <tbody>
+        ${rows.map(row => {
+          if (!row.result) {
+            return `
+              <tr class="diagnostics-fail">
+                <td>${row.displayName}</td>
+                <td colspan="${names.length + 2}">❌ ${row.error ?? 'Not available'}</td>
+              </tr>
+            `;
+          }
+          const dissent = scored.length > 1 && predicted(row) !== majority;
+          return `
+            <tr class="${dissent ? 'compare-dissent' : ''}">
+              <td>${row.displayName}</td>
+              <td><strong>${predicted(row)}</strong>${dissent ? ' ⚠️' : ''}</td>
+              ${names.map(name => {
+                const index = row.classNames.indexOf(name);
+                const prob = index >= 0 ? row.result!.probabilities[index] : null;
+                return `<td class="${index === row.result!.classIndex ? 'compare-top' : ''}">${prob === null ? '—' : `${(prob * 100).toFixed(1)}%`}</td>`;
+              }).join('')}
+              <td>${row.mapped.length}/${COMMON_FORM.fields.length}</td>
+            </tr>
+          `;
+        }).join('')}
+        ${consensus ? `
+          <tr class="compare-consensus">
+            <td>Weighted consensus</td>
+            <td><strong>${consensus.classNames[consensus.classIndex]}</strong></td>
+            ${names.map(name => {
+              const index = consensus.classNames.indexOf(name);
+              return `<td class="${index === consensus.classIndex ? 'compare-top' : ''}">${index >= 0 ? `${(consensus.probabilities[index] * 100).toFixed(1)}%` : '—'}</td>`;
+            }).join('')}
+            <td>weights: ${scored.map(row => `${row.displayName} ${row.weight.toFixed(2)}`).join(', ')}</td>
+          </tr>
+        ` : ''}
+      </tbody>
+    </table>
+    <div class="explanation-note">
+      Each mission model was trained on its own catalog; parameters a mission does not use are left out and its other features take their training defaults.
+      ${consensus ? 'The consensus averages the class probabilities weighted by each model\'s weighted test F1.' : ''}
+    </div>
+  `;
+}
@@ -0,0 +1,159 @@
+import { escapeHtml } from './html';
+import { manifestUrl, ModelManifest } from './manifest';
+
+// Data-driven confusion matrix: rows are true classes, columns predicted classes.
+// Counts come from the mission's `confusion.json` (or a live evaluation run); when
+// per-object results are available, clicking a cell lists the objects in it.
+
+export interface ConfusionSample {
+  label: string;
+  actual: number;
+  predicted: number;
+  probabilities: number[];
+}
+
+export interface ConfusionData {
+  source: string;
+  matrix: number[][]; // [true class][predicted class]
+  samples?: ConfusionSample[];
+}
+
+type CellMode = 'counts' | 'rates';
+
+// Objects listed per selected cell
+const SAMPLE_LIMIT = 100;
+
+export async function loadConfusionData(modelName: string, manifest: ModelManifest): Promise<ConfusionData> {
+  if (!manifest.confusion) {
+    throw new Error(`No confusion matrix ships with the ${manifest.display_name} model`);
+  }
+
+  const path = manifestUrl(modelName, manifest.confusion);
+  const response = await fetch(path);
+  if (!response.ok) {
+    throw new Error(`Confusion matrix not found at ${path} (HTTP ${response.status})`);
+  }
+
+  const data = await response.json() as ConfusionData;
+  if (!Array.isArray(data.matrix) || data.matrix.some(row => row.length !== data.matrix.length)) {
+    throw new Error(`Confusion matrix for ${modelName} is not square`);
+  }
+  return data;
+}
+
+export class ConfusionMatrixView {
+  private mode: CellMode = 'counts';
+  private selected: { actual: number; predicted: number } | null = null;
+  // Escaped once: every use is interpolated into innerHTML or a title attribute
+  private classNames: string[];
+
+  constructor(
+    private container: HTMLElement,
+    private data: ConfusionData,
+    classNames: string[]
+  ) {
+    this.classNames = classNames.map(escapeHtml);
+    this.container.addEventListener('click', (e) => {
+      const target = e.target as HTMLElement;
+
+      const toggle = target.closest('[data-cm-mode]') as HTMLElement | null;
+      if (toggle) {
+        this.mode = toggle.dataset.cmMode as CellMode;
+        this.render();
+        return;
+      }
+
+      const cell = target.closest('td[data-cm-actual]') as HTMLElement | null;
+      if (cell) {
+        const actual = Number(cell.dataset.cmActual);
+        const predicted = Number(cell.dataset.cmPredicted);
+        const same = this.selected?.actual === actual && this.selected?.predicted === predicted;
+        this.selected = same ? null : { actual, predicted };
+        this.render();
+      }
+    });
+  }
+
+  render() {
+    const { matrix } = this.data;
+    const rowTotals = matrix.map(row => row.reduce((a, b) => a + b, 0));
+    const total = rowTotals.reduce((a, b) => a + b, 0);
+
+    this.container.innerHTML = `
+      <div class="cm-toggle">
+        <button class="export-btn ${this.mode === 'counts' ? 'active' : ''}" data-cm-mode="counts">Counts</button>
+        <button class="export-btn ${this.mode === 'rates' ? 'active' : ''}" data-cm-mode="rates">Row-normalized</button>
+      </div>
+      <table class="confusion-table">
+        <thead>
+          <tr>
+            <th>True ↓ / Predicted →</th>
+            ${this.classNames.map(name => `<th>${name}</th>`).join('')}
+          </tr>
+        </thead>
+        <tbody>
+          ${matrix.map((row, t) => `
+            <tr>
+              <th>${this.classNames[t]}</th>
+              ${row.map((count, p) => {
+                const rate = rowTotals[t] ? count / rowTotals[t] : 0;
+                const selected = this.selected?.actual === t && this.selected?.predicted === p;
+                return `
+                  <td class="cm-cell ${t === p ? 'cm-diagonal' : ''} ${selected ? 'cm-selected' : ''}"
+                      data-cm-actual="${t}" data-cm-predicted="${p}"
+                      style="--cm-rate: ${rate.toFixed(3)};"
+                      title="True ${this.classNames[t]}, predicted ${this.classNames[p]}: ${count} of ${rowTotals[t]} (${(rate * 100).toFixed(1)}% of row, ${total ? (count / total * 100).toFixed(1) : '0.0'}% of all)">
+                    ${this.mode === 'counts' ? count : `${(rate * 100).toFixed(1)}%`}
+                  </td>
+                `;
+              }).join('')}
+            </tr>
+          `).join('')}
+        </tbody>
+      </table>
+      <div class="explanation-note">${escapeHtml(this.data.source)}. Hover a cell for exact values${this.data.samples ? ', click it to list its objects' : ''}.</div>
+      ${this.renderSamples()}
+    `;
+  }
+
+  private renderSamples(): string {
+    if (!this.selected) return '';
+
+    const { actual, predicted } = this.selected;
+    const heading = `True ${this.classNames[actual]}, predicted ${this.classNames[predicted]}`;
+    if (!this.data.samples) {
+      return `<div class="cm-samples"><h5>${heading}</h5><div class="explanation-note">Per-object test results are not bundled for this mission.</div></div>`;
+    }
+
+    // Most confident first: the clearest agreements, or the most confident mistakes
+    const samples = this.data.samples
+      .filter(s => s.actual === actual && s.predicted === predicted)
+      .sort((a, b) => b.probabilities[predicted] - a.probabilities[predicted]);
+    const shown = samples.slice(0, SAMPLE_LIMIT);
+
+    return `
+      <div class="cm-samples">
+        <h5>${heading}: ${samples.length} object${samples.length === 1 ? '' : 's'}</h5>
+        ${samples.length === 0 ? '' : `
+          <table class="batch-table">
+            <thead>
+              <tr>
+                <th>Object</th>
+                ${this.classNames.map(name => `<th>P(${name})</th>`).join('')}
+              </tr>
+            </thead>
+            <tbody>
+              ${shown.map(s => `
+                <tr>
+                  <td>${escapeHtml(s.label)}</td>
+                  ${s.probabilities.map(p => `<td>${(p * 100).toFixed(1)}%</td>`).join('')}
+                </tr>
+              `).join('')}
+            </tbody>
+          </table>
+          ${samples.length > shown.length ? `<div class="explanation-note">Showing the ${shown.length} most confident of ${samples.length}.</div>` : ''}
+        `}
+      </div>
+    `;
+  }
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import {
+  centralTransitDuration,
+  deriveQuantities,
+  derivedFeatureValues,
+  physicalParameters,
+  stellarDensity,
+  stellarMass
+} from './derived';
+
+// The Earth around the Sun
+const earth = { period: 365.25, planet_radius: 1, star_radius: 1, star_mass: 1, star_teff: 5772 };
+const quantity = (quantities: ReturnType<typeof deriveQuantities>, name: string) => quantities.find(q => q.name === name)?.value;
+
+describe('physicalParameters', () => {
+  it('keys finite form values by physical parameter', () => {
+    expect(physicalParameters(
+      { period: 'orbital_period', star_radius: 'star_radius', star_teff: 'star_teff' },
+      { orbital_period: 12.4, star_radius: NaN, star_teff: null }
+    )).toEqual({ period: 12.4 });
+  });
+});
+
+describe('stellar mass and density', () => {
+  it('prefers the entered mass and falls back to log g and radius', () => {
+    expect(stellarMass({ star_mass: 0.8, star_logg: 4.438, star_radius: 1 })).toBe(0.8);
+    expect(stellarMass({ star_logg: 4.438, star_radius: 2 })).toBeCloseTo(4);
+    expect(stellarMass({ star_radius: 1 })).toBeNull();
+  });
+
+  it('gives the density in Solar units', () => {
+    expect(stellarDensity({ star_mass: 1, star_radius: 2 })).toBeCloseTo(0.125);
+    expect(stellarDensity({ star_mass: 1 })).toBeNull();
+  });
+});
+
+describe('centralTransitDuration', () => {
+  it('is about 13 hours for the Earth', () => {
+    expect(centralTransitDuration(365.25, 215.032, 0.009168)).toBeCloseTo(13.1, 1);
+  });
+
+  it('caps the chord for orbits inside the star', () => {
+    expect(centralTransitDuration(1, 0.5)).toBeCloseTo(12);
+  });
+});
+
+describe('deriveQuantities', () => {
+  it('recovers the Earth\'s orbit and insolation', () => {
+    const quantities = deriveQuantities(earth);
+
+    expect(quantity(quantities, 'semi_major_axis')).toBeCloseTo(1, 4);
+    expect(quantity(quantities, 'a_over_rstar')).toBeCloseTo(215.03, 1);
+    expect(quantity(quantities, 'insolation')).toBeCloseTo(1, 4);
+    expect(quantity(quantities, 'equilibrium_temperature')).toBeCloseTo(254.6, 0);
+    expect(quantity(quantities, 'stellar_density')).toBeCloseTo(1.41);
+    expect(quantity(quantities, 'radius_ratio')).toBeCloseTo(0.009168);
+    // Entered masses are not repeated as derived ones
+    expect(quantity(quantities, 'star_mass')).toBeUndefined();
+  });
+
+  it('inverts the entered duration into an impact parameter and inclination', () => {
+    const central = centralTransitDuration(365.25, 215.032, 0.009168);
+    const grazing = deriveQuantities({ ...earth, duration: central / 2 });
+
+    expect(quantity(deriveQuantities({ ...earth, duration: central }), 'impact_parameter')).toBeCloseTo(0, 2);
+    expect(quantity(grazing, 'impact_parameter')).toBeCloseTo(Math.sqrt(0.75) * 1.009168, 2);
+    expect(quantity(grazing, 'inclination')).toBeLessThan(90);
+    expect(deriveQuantities({ ...earth, duration: central * 2 }).find(q => q.name === 'impact_parameter'))
+      .toMatchObject({ value: 0, note: 'duration exceeds a central transit; set to 0' });
+  });
+
+  it('stops at the quantities the inputs support', () => {
+    const names = deriveQuantities({ depth: 10000, star_logg: 4.438, star_radius: 1 }).map(q => q.name);
+
+    expect(names).toEqual(['star_mass', 'stellar_density', 'radius_ratio']);
+    expect(quantity(deriveQuantities({ depth: 10000 }), 'radius_ratio')).toBeCloseTo(0.1);
+  });
+});
+
+describe('derivedFeatureValues', () => {
+  it('fills mapped columns without overriding entered ones', () => {
+    const quantities = deriveQuantities(earth);
+
+    expect(derivedFeatureValues(quantities, { insolation: 'pl_insol', equilibrium_temperature: 'pl_eqt' }, { pl_eqt: 300 }))
+      .toEqual({ pl_insol: quantity(quantities, 'insolation') });
+  });
+});
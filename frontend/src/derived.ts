@@ -0,0 +1,151 @@
+import { FeatureValues } from './features';
+
+// Derived astrophysical quantities from the entered parameters (Kepler's third law,
+// blackbody stellar luminosity, circular-orbit transit geometry). A manifest's
+// `derived_inputs` maps quantities onto catalog columns the model was trained on,
+// so e.g. the TESS model receives pl_insol and pl_eqt instead of their imputed defaults.
+
+export type PhysicalParameters = { [parameter: string]: number };
+
+export interface DerivedQuantity {
+  name: string;
+  label: string;
+  value: number;
+  unit: string;
+  note: string;
+}
+
+export const SOLAR_LOGG = 4.438;
+export const EARTH_TO_SOLAR_RADIUS = 0.009168;
+const SOLAR_TEFF = 5772;
+const AU_IN_SOLAR_RADII = 215.032;
+const SOLAR_DENSITY_CGS = 1.41;
+// Bond albedo of the catalogs' equilibrium temperatures (TOI pl_eqt, KOI koi_teq)
+const BOND_ALBEDO = 0.3;
+
+// Form values keyed by physical parameter, through a `common_inputs` style mapping
+export function physicalParameters(mapping: { [parameter: string]: string }, values: FeatureValues): PhysicalParameters {
+  const parameters: PhysicalParameters = {};
+  for (const [parameter, field] of Object.entries(mapping)) {
+    const value = values[field];
+    if (value !== null && value !== undefined && Number.isFinite(value)) {
+      parameters[parameter] = value;
+    }
+  }
+  return parameters;
+}
+
+// Stellar mass in Solar masses: entered directly, or from log g and radius
+export function stellarMass(p: PhysicalParameters): number | null {
+  if (p.star_mass > 0) return p.star_mass;
+  if (p.star_logg !== undefined && p.star_radius > 0) return 10 ** (p.star_logg - SOLAR_LOGG) * p.star_radius ** 2;
+  return null;
+}
+
+// Mean stellar density in Solar units
+export function stellarDensity(p: PhysicalParameters): number | null {
+  const mass = stellarMass(p);
+  return mass !== null && p.star_radius > 0 ? mass / p.star_radius ** 3 : null;
+}
+
+// Full (first to fourth contact) duration in hours of a central transit on a circular orbit
+export function centralTransitDuration(periodDays: number, aOverRstar: number, radiusRatio = 0): number {
+  const chord = Math.min(1, (1 + radiusRatio) / aOverRstar);
+  return periodDays * 24 / Math.PI * Math.asin(chord);
+}
+
+export function deriveQuantities(p: PhysicalParameters): DerivedQuantity[] {
+  const quantities: DerivedQuantity[] = [];
+  const add = (name: string, label: string, value: number | null, unit: string, note: string) => {
+    if (value !== null && Number.isFinite(value)) quantities.push({ name, label, value, unit, note });
+  };
+
+  const mass = stellarMass(p);
+  const density = stellarDensity(p);
+  const radiusRatio = p.planet_radius > 0 && p.star_radius > 0
+    ? p.planet_radius * EARTH_TO_SOLAR_RADIUS / p.star_radius
+    : p.depth > 0 ? Math.sqrt(p.depth / 1e6) : null;
+
+  if (p.star_mass === undefined) {
+    add('star_mass', 'Stellar mass', mass, 'M☉', 'g R² / G from log g and radius');
+  }
+  add('stellar_density', 'Stellar density', density !== null ? density * SOLAR_DENSITY_CGS : null, 'g/cm³', 'M / (4/3 π R³)');
+  add('radius_ratio', 'Radius ratio Rp/R★', radiusRatio, '', p.planet_radius > 0 && p.star_radius > 0 ? 'from the entered radii' : '√depth');
+
+  if (!(p.period > 0) || mass === null) return quantities;
+
+  // Kepler's third law, planet mass neglected
+  const semiMajorAxis = (mass * (p.period / 365.25) ** 2) ** (1 / 3);
+  add('semi_major_axis', 'Semi-major axis', semiMajorAxis, 'AU', 'Kepler\'s third law');
+  if (!(p.star_radius > 0)) return quantities;
+
+  const aOverRstar = semiMajorAxis * AU_IN_SOLAR_RADII / p.star_radius;
+  add('a_over_rstar', 'Scaled separation a/R★', aOverRstar, '', 'orbit size in stellar radii');
+
+  if (p.star_teff > 0) {
+    const luminosity = p.star_radius ** 2 * (p.star_teff / SOLAR_TEFF) ** 4;
+    add('insolation', 'Insolation', luminosity / semiMajorAxis ** 2, 'S⊕', 'L★ / a², blackbody star');
+    add('equilibrium_temperature', 'Equilibrium temperature', p.star_teff * Math.sqrt(1 / (2 * aOverRstar)) * (1 - BOND_ALBEDO) ** 0.25, 'K', `full redistribution, Bond albedo ${BOND_ALBEDO}`);
+  }
+
+  const k = radiusRatio ?? 0;
+  add('expected_duration', 'Expected central transit duration', centralTransitDuration(p.period, aOverRstar, k), 'h', 'circular orbit, b = 0');
+  add('max_impact_parameter', 'Impact parameter upper bound', 1 + k, '', 'grazing limit 1 + Rp/R★');
+
+  // Invert T ≈ (P/π) (R★/a) √((1+k)² − b²) for the entered duration
+  if (p.duration > 0) {
+    const chord = Math.PI * p.duration / (p.period * 24) * aOverRstar;
+    const bSquared = (1 + k) ** 2 - chord ** 2;
+    add('impact_parameter', 'Impact parameter (from duration)', Math.sqrt(Math.max(0, bSquared)), '',
+      bSquared < 0 ? 'duration exceeds a central transit; set to 0' : 'circular orbit');
+    const cosI = Math.sqrt(Math.max(0, bSquared)) / aOverRstar;
+    if (cosI <= 1) {
+      add('inclination', 'Inclination', Math.acos(cosI) * 180 / Math.PI, '°', 'from the impact parameter');
+    }
+  }
+
+  return quantities;
+}
+
+// Derived values for the columns the manifest's `derived_inputs` names, without
+// overriding anything the user entered for the same column
+export function derivedFeatureValues(
+  quantities: DerivedQuantity[],
+  mapping: { [quantity: string]: string },
+  entered: FeatureValues
+): FeatureValues {
+  const values: FeatureValues = {};
+  for (const quantity of quantities) {
+    const column = mapping[quantity.name];
+    if (column && entered[column] === undefined) {
+      values[column] = quantity.value;
+    }
+  }
+  return values;
+}
+
+export function renderDerivedQuantities(quantities: DerivedQuantity[], mapping: { [quantity: string]: string }): string {
+  if (quantities.length === 0) return '';
+
+  const format = (value: number) => Math.abs(value) >= 1e4 || (Math.abs(value) < 0.01 && value !== 0)
+    ? value.toExponential(2)
+    : String(+value.toPrecision(4));
+
+  return `
+    <div class="derived-quantities">
+      <h5>🧮 Derived Quantities</h5>
+      <table class="batch-table">
+        <tbody>
+          ${quantities.map(q => `
+            <tr title="${q.note}">
+              <td>${q.label}</td>
+              <td><strong>${format(q.value)}</strong> ${q.unit}</td>
+              <td>${mapping[q.name] ? `→ <code>${mapping[q.name]}</code>` : ''}</td>
+            </tr>
+          `).join('')}
+        </tbody>
+      </table>
+      <div class="explanation-note">Quantities marked → are passed to the model as the named catalog column. Hover a row for how it was computed.</div>
+    </div>
+  `;
+}
@@ -0,0 +1,116 @@
+import * as ort from 'onnxruntime-web';
+import { escapeHtml } from './html';
+import { classNames, ModelManifest } from './manifest';
+
+// Load-time checks of the ONNX sessions against the mission manifest and feature list
+
+export interface TensorCheck {
+  artifact: 'scaler' | 'model';
+  role: string;
+  tensor: string;
+  expected: string;
+  actual: string;
+  ok: boolean;
+}
+
+export interface MissionDiagnostics {
+  mission: string;
+  displayName: string;
+  checks: TensorCheck[];
+  notes: string[];
+  error?: string;
+}
+
+type Metadata = readonly ort.InferenceSession.ValueMetadata[];
+
+export function checkSessions(
+  manifest: ModelManifest,
+  featureCount: number,
+  scaler: ort.InferenceSession,
+  model: ort.InferenceSession
+): TensorCheck[] {
+  const classCount = classNames(manifest).length;
+
+  return [
+    checkTensor('scaler', 'input', scaler.inputMetadata, manifest.scaler.input, 'float32', featureCount),
+    checkTensor('scaler', 'output', scaler.outputMetadata, manifest.scaler.output, 'float32', featureCount),
+    checkTensor('model', 'input', model.inputMetadata, manifest.model.input, 'float32', featureCount),
+    checkTensor('model', 'label', model.outputMetadata, manifest.model.outputs.label, 'int64', null),
+    checkTensor('model', 'probabilities', model.outputMetadata, manifest.model.outputs.probabilities, 'float32', classCount)
+  ];
+}
+
+// `lastDim` is the required size of the trailing dimension, or null when any rank/size is fine
+function checkTensor(
+  artifact: TensorCheck['artifact'],
+  role: string,
+  metadata: Metadata,
+  name: string,
+  type: string,
+  lastDim: number | null
+): TensorCheck {
+  const expected = lastDim === null ? type : `${type} [N, ${lastDim}]`;
+  const check = { artifact, role, tensor: name, expected };
+  const value = metadata.find(m => m.name === name);
+
+  if (!value) {
+    const available = metadata.map(m => m.name).join(', ') || 'none';
+    return { ...check, actual: `missing (session has: ${available})`, ok: false };
+  }
+  if (!value.isTensor) {
+    return { ...check, actual: 'non-tensor value', ok: false };
+  }
+
+  const actual = `${value.type} ${formatShape(value.shape)}`;
+  const trailing = value.shape[value.shape.length - 1];
+  const shapeOk = lastDim === null || (value.shape.length === 2 && (trailing === lastDim || isDynamic(trailing)));
+  return { ...check, actual, ok: value.type === type && shapeOk };
+}
+
+// Dynamic dimensions come back as a symbol name or as -1 read as uint32
+function isDynamic(dim: number | string | undefined): boolean {
+  return typeof dim === 'string' || dim === 4294967295 || dim === -1;
+}
+
+function formatShape(shape: ReadonlyArray<number | string>): string {
+  return shape.length === 0 ? '[?]' : `[${shape.map(dim => isDynamic(dim) ? 'N' : dim).join(', ')}]`;
+}
+
+export function describeFailures(checks: TensorCheck[]): string {
+  return checks
+    .filter(c => !c.ok)
+    .map(c => `${c.artifact} ${c.role} '${c.tensor}': expected ${c.expected}, found ${c.actual}`)
+    .join('; ');
+}
+
+export function renderDiagnostics(container: HTMLElement, missions: MissionDiagnostics[]) {
+  container.innerHTML = missions.map(mission => {
+    const failed = mission.error !== undefined || mission.checks.some(c => !c.ok);
+    return `
+      <div class="diagnostics-mission">
+        <h4>${mission.displayName} <span class="model-status ${failed ? 'status-error' : 'status-ready'}">${failed ? 'Incompatible' : 'Compatible'}</span></h4>
+        ${mission.error ? `<div class="diagnostics-error">❌ ${escapeHtml(mission.error)}</div>` : ''}
+        ${mission.notes.map(note => `<div class="diagnostics-note">ℹ️ ${escapeHtml(note)}</div>`).join('')}
+        ${mission.checks.length ? `
+          <table class="batch-table diagnostics-table">
+            <thead>
+              <tr><th>Artifact</th><th>Role</th><th>Tensor</th><th>Expected</th><th>Found</th><th></th></tr>
+            </thead>
+            <tbody>
+              ${mission.checks.map(c => `
+                <tr class="${c.ok ? '' : 'diagnostics-fail'}">
+                  <td>${c.artifact}</td>
+                  <td>${c.role}</td>
+                  <td>${escapeHtml(c.tensor)}</td>
+                  <td>${c.expected}</td>
+                  <td>${escapeHtml(c.actual)}</td>
+                  <td>${c.ok ? '✅' : '❌'}</td>
+                </tr>
+              `).join('')}
+            </tbody>
+          </table>
+        ` : ''}
+      </div>
+    `;
+  }).join('');
+}
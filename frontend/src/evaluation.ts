@@ -0,0 +1,241 @@
+import { catalogRowValues, parseCatalog } from './batch';
+import { assembleFeatureVector, FeatureSchema } from './features';
+import { classNames, ColumnStats, manifestUrl, ModelManifest, ModelMetrics } from './manifest';
+
+// In-browser evaluation of a deployed mission model on its shipped held-out split.
+// The split is stored standardized (X_test_scaled.csv); rows are mapped back to catalog
+// units with the split's scaler and then go through the same feature assembly, scaler and
+// classifier as any other prediction, so the scores describe exactly what is deployed.
+
+export interface TestSet {
+  matrix: Float32Array; // rows x feature_count, unscaled, in feature-list order
+  rows: number;
+  labels: number[]; // true class index per row (manifest class order)
+}
+
+export interface RocPoint {
+  fpr: number;
+  tpr: number;
+}
+
+export interface ClassReport {
+  name: string;
+  precision: number;
+  recall: number;
+  f1: number;
+  support: number;
+  auc: number; // one-vs-rest
+  roc: RocPoint[];
+}
+
+export interface EvaluationReport {
+  rows: number;
+  accuracy: number;
+  precision: number; // support-weighted, as in ModelMetrics
+  recall: number;
+  f1_weighted: number;
+  f1_macro: number;
+  roc_auc: number; // macro average of the one-vs-rest AUCs
+  classes: ClassReport[];
+  confusion: number[][]; // [true class][predicted class]
+  predictions: number[];
+}
+
+// Chart colors keyed by class_mapping label, as on the result card; other labels use NEUTRAL_COLORS
+const CLASS_COLORS: { [label: string]: string } = { Candidate: '#ffd700', Confirmed: '#28a745', False_Positive: '#dc3545' };
+const NEUTRAL_COLORS = ['#00c9ff', '#b388ff', '#ff9f43'];
+
+export function classColor(label: string, index: number): string {
+  return CLASS_COLORS[label] ?? NEUTRAL_COLORS[index % NEUTRAL_COLORS.length];
+}
+
+export async function loadTestSet(modelName: string, manifest: ModelManifest, schema: FeatureSchema): Promise<TestSet> {
+  const split = manifest.test_split;
+  if (!split) {
+    throw new Error(`No held-out test split ships with the ${manifest.display_name} model`);
+  }
+
+  const [featuresText, labelsText, scaler] = await Promise.all([
+    fetchText(manifestUrl(modelName, split.features)),
+    fetchText(manifestUrl(modelName, split.labels)),
+    fetchText(manifestUrl(modelName, split.scaler)).then(text => JSON.parse(text) as ColumnStats)
+  ]);
+
+  const features = parseCatalog(featuresText);
+  const encoded = parseCatalog(labelsText);
+  if (features.rows.length !== encoded.rows.length) {
+    throw new Error(`Test split has ${features.rows.length} feature rows but ${encoded.rows.length} labels`);
+  }
+
+  const names = classNames(manifest);
+  const labelColumn = encoded.columns[0];
+  const labels = encoded.rows.map((row, index) => {
+    const classIndex = names.indexOf(split.label_classes[Number(row[labelColumn])]);
+    if (classIndex < 0) {
+      throw new Error(`Test label "${row[labelColumn]}" on row ${index + 1} has no class in the manifest`);
+    }
+    return classIndex;
+  });
+
+  const matrix = new Float32Array(features.rows.length * schema.feature_count);
+  features.rows.forEach((row, index) => {
+    const values = catalogRowValues(row);
+    scaler.feature_names.forEach((column, i) => {
+      const value = values[column];
+      if (value !== null && value !== undefined) {
+        values[column] = value * scaler.scale[i] + scaler.mean[i];
+      }
+    });
+    matrix.set(assembleFeatureVector(schema, values).vector, index * schema.feature_count);
+  });
+
+  return { matrix, rows: features.rows.length, labels };
+}
+
+async function fetchText(path: string): Promise<string> {
+  const response = await fetch(path);
+  if (!response.ok) {
+    throw new Error(`Test split file not found at ${path} (HTTP ${response.status})`);
+  }
+  return response.text();
+}
+
+export function evaluatePredictions(labels: number[], probabilities: number[][], names: string[]): EvaluationReport {
+  const k = names.length;
+  const n = labels.length;
+  const predictions = probabilities.map(p => p.indexOf(Math.max(...p)));
+
+  const confusion = Array.from({ length: k }, () => new Array<number>(k).fill(0));
+  labels.forEach((label, i) => confusion[label][predictions[i]]++);
+
+  const classes = names.map((name, c) => {
+    const support = confusion[c].reduce((a, b) => a + b, 0);
+    const predicted = confusion.reduce((sum, row) => sum + row[c], 0);
+    const precision = predicted ? confusion[c][c] / predicted : 0;
+    const recall = support ? confusion[c][c] / support : 0;
+    const f1 = precision + recall ? 2 * precision * recall / (precision + recall) : 0;
+    const roc = rocCurve(labels.map(label => label === c), probabilities.map(p => p[c]));
+    return { name, precision, recall, f1, support, auc: areaUnder(roc), roc };
+  });
+
+  const weighted = (pick: (c: ClassReport) => number) => classes.reduce((sum, c) => sum + pick(c) * c.support / n, 0);
+  const mean = (pick: (c: ClassReport) => number) => classes.reduce((sum, c) => sum + pick(c), 0) / k;
+
+  return {
+    rows: n,
+    accuracy: confusion.reduce((sum, row, c) => sum + row[c], 0) / n,
+    precision: weighted(c => c.precision),
+    recall: weighted(c => c.recall),
+    f1_weighted: weighted(c => c.f1),
+    f1_macro: mean(c => c.f1),
+    roc_auc: mean(c => c.auc),
+    classes,
+    confusion,
+    predictions
+  };
+}
+
+// One-vs-rest ROC; tied scores form a single step, so the area equals the rank-sum AUC
+function rocCurve(positive: boolean[], scores: number[]): RocPoint[] {
+  const order = scores.map((_, i) => i).sort((a, b) => scores[b] - scores[a]);
+  const positives = positive.filter(Boolean).length;
+  const negatives = positive.length - positives;
+
+  const points: RocPoint[] = [{ fpr: 0, tpr: 0 }];
+  let tp = 0;
+  let fp = 0;
+  for (let i = 0; i < order.length; i++) {
+    if (positive[order[i]]) tp++; else fp++;
+    if (i + 1 === order.length || scores[order[i + 1]] !== scores[order[i]]) {
+      points.push({ fpr: negatives ? fp / negatives : 0, tpr: positives ? tp / positives : 0 });
+    }
+  }
+  return points;
+}
+
+function areaUnder(points: RocPoint[]): number {
+  let area = 0;
+  for (let i = 1; i < points.length; i++) {
+    area += (points[i].fpr - points[i - 1].fpr) * (points[i].tpr + points[i - 1].tpr) / 2;
+  }
+  return area;
+}
+
+// Live scores next to the ones published in the manifest
+export function renderEvaluationSummary(container: HTMLElement, report: EvaluationReport, published: ModelMetrics) {
+  const percent = (value: number) => `${(value * 100).toFixed(2)}%`;
+  const row = (label: string, live: number, reference?: number) => {
+    const delta = reference === undefined ? null : (live - reference) * 100;
+    const matches = delta !== null && Math.abs(delta) < 0.5;
+    return `
+      <tr class="${delta !== null && !matches ? 'diagnostics-fail' : ''}">
+        <td>${label}</td>
+        <td>${percent(live)}</td>
+        <td>${reference === undefined ? '—' : percent(reference)}</td>
+        <td>${delta === null ? '' : `${matches ? '✅' : '⚠️'} ${delta >= 0 ? '+' : ''}${delta.toFixed(2)} pp`}</td>
+      </tr>
+    `;
+  };
+
+  container.innerHTML = `
+    <table class="batch-table diagnostics-table">
+      <thead>
+        <tr><th>Metric (${report.rows} test rows)</th><th>Live</th><th>Manifest</th><th>Difference</th></tr>
+      </thead>
+      <tbody>
+        ${row('Accuracy', report.accuracy, published.accuracy)}
+        ${row('Precision (weighted)', report.precision, published.precision)}
+        ${row('Recall (weighted)', report.recall, published.recall)}
+        ${row('F1 (weighted)', report.f1_weighted, published.f1_score)}
+        ${row('F1 (macro)', report.f1_macro)}
+        ${row('ROC AUC (macro, one-vs-rest)', report.roc_auc, published.roc_auc)}
+      </tbody>
+    </table>
+    <table class="batch-table diagnostics-table">
+      <thead>
+        <tr><th>Class</th><th>Precision</th><th>Recall</th><th>F1</th><th>AUC</th><th>Support</th></tr>
+      </thead>
+      <tbody>
+        ${report.classes.map(c => `
+          <tr>
+            <td>${c.name}</td>
+            <td>${percent(c.precision)}</td>
+            <td>${percent(c.recall)}</td>
+            <td>${percent(c.f1)}</td>
+            <td>${c.auc.toFixed(3)}</td>
+            <td>${c.support}</td>
+          </tr>
+        `).join('')}
+      </tbody>
+    </table>
+  `;
+}
+
+export function renderRocCurves(container: HTMLElement, report: EvaluationReport) {
+  const size = 260;
+  const pad = 30;
+  const x = (fpr: number) => pad + fpr * size;
+  const y = (tpr: number) => pad + (1 - tpr) * size;
+
+  const curves = report.classes.map((c, index) => `
+    <polyline class="roc-curve" fill="none" stroke="${classColor(c.name, index)}" stroke-width="2"
+      points="${c.roc.map(p => `${x(p.fpr).toFixed(1)},${y(p.tpr).toFixed(1)}`).join(' ')}">
+      <title>${c.name} vs rest: AUC ${c.auc.toFixed(3)}</title>
+    </polyline>
+  `).join('');
+
+  container.innerHTML = `
+    <svg class="roc-chart" viewBox="0 0 ${size + pad * 2} ${size + pad * 2}" role="img" aria-label="ROC curves">
+      <rect x="${pad}" y="${pad}" width="${size}" height="${size}" fill="none" stroke="rgba(255,255,255,0.3)"/>
+      <line x1="${x(0)}" y1="${y(0)}" x2="${x(1)}" y2="${y(1)}" stroke="rgba(255,255,255,0.3)" stroke-dasharray="4 4"/>
+      ${curves}
+      <text x="${pad + size / 2}" y="${size + pad * 2 - 6}" text-anchor="middle">False positive rate</text>
+      <text x="10" y="${pad + size / 2}" text-anchor="middle" transform="rotate(-90 10 ${pad + size / 2})">True positive rate</text>
+    </svg>
+    <div class="roc-legend">
+      ${report.classes.map((c, index) => `
+        <span><span class="roc-swatch" style="background: ${classColor(c.name, index)};"></span>${c.name} (AUC ${c.auc.toFixed(3)})</span>
+      `).join('')}
+    </div>
+  `;
+}
@@ -0,0 +1,219 @@
+import { FeatureSchema } from './features';
+import { MissionForm } from './manifest';
+
+// Per-feature attributions for one prediction, estimated with sampled Shapley values.
+// The reference point is the schema's default vector (what the model sees for an object
+// nobody filled in). Features are switched from default to the entered value in random
+// orders; each feature's average change in the predicted class probability is its
+// contribution. Features left at their default contribute exactly zero and are not sampled.
+
+export interface FeatureContribution {
+  column: string;
+  label: string;
+  value: number;
+  reference: number;
+  contribution: number; // change in predicted-class probability, 0-1 scale
+}
+
+export interface Explanation {
+  classIndex: number;
+  referenceProbability: number; // predicted-class probability at the default vector
+  probability: number; // predicted-class probability at the input
+  contributions: FeatureContribution[]; // largest |contribution| first
+  permutations: number;
+}
+
+// Runs the model over `rows` stacked unscaled feature vectors and returns each row's probabilities
+export type BatchEvaluator = (data: Float32Array, rows: number) => Promise<number[][]>;
+
+const MAX_ROWS = 4096;
+const MIN_PERMUTATIONS = 8;
+const MAX_PERMUTATIONS = 64;
+const WATERFALL_FEATURES = 10;
+
+export async function explainPrediction(
+  evaluate: BatchEvaluator,
+  schema: FeatureSchema,
+  form: MissionForm,
+  vector: Float32Array,
+  classIndex: number,
+  seed = 42
+): Promise<Explanation> {
+  const width = schema.feature_count;
+  const reference = new Float32Array(width);
+  schema.feature_names.forEach((column, index) => {
+    reference[index] = schema.defaults[column] ?? 0;
+  });
+
+  const players: number[] = [];
+  for (let index = 0; index < width; index++) {
+    if (vector[index] !== reference[index]) players.push(index);
+  }
+
+  // Row 0 is the reference, row 1 the input; then one row per step of each permutation
+  const permutations = players.length < 2
+    ? 0
+    : evenClamp(Math.floor(MAX_ROWS / players.length), MIN_PERMUTATIONS, MAX_PERMUTATIONS);
+  const rows = 2 + permutations * players.length;
+  const data = new Float32Array(rows * width);
+  data.set(reference, 0);
+  data.set(vector, width);
+
+  const random = mulberry32(seed);
+  const orders: number[][] = [];
+  for (let p = 0; p < permutations; p += 2) {
+    const order = shuffle(players.slice(), random);
+    // Antithetic pairs: each order is followed by its reverse, which halves the variance
+    orders.push(order, order.slice().reverse());
+  }
+
+  let row = 2;
+  for (const order of orders) {
+    const current = reference.slice();
+    for (const index of order) {
+      current[index] = vector[index];
+      data.set(current, row * width);
+      row++;
+    }
+  }
+
+  const probabilities = await evaluate(data, rows);
+  const target = probabilities.map(p => p[classIndex]);
+  const referenceProbability = target[0];
+  const probability = target[1];
+
+  const totals = new Map<number, number>(players.map(index => [index, 0]));
+  if (players.length === 1) {
+    totals.set(players[0], probability - referenceProbability);
+  }
+
+  row = 2;
+  for (const order of orders) {
+    let previous = referenceProbability;
+    for (const index of order) {
+      totals.set(index, totals.get(index)! + target[row] - previous);
+      previous = target[row];
+      row++;
+    }
+  }
+
+  const contributions = players.map(index => {
+    const column = schema.feature_names[index];
+    return {
+      column,
+      label: columnLabel(schema, form, column),
+      value: vector[index],
+      reference: reference[index],
+      contribution: totals.get(index)! / Math.max(permutations, 1)
+    };
+  });
+  contributions.sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution));
+
+  return { classIndex, referenceProbability, probability, contributions, permutations };
+}
+
+// Form label for columns fed by a manual-input field, otherwise the catalog column name
+function columnLabel(schema: FeatureSchema, form: MissionForm, column: string): string {
+  const field = Object.entries(schema.inputs).find(([, mapping]) => mapping.column === column)?.[0];
+  const label = form.fields.find(f => f.name === field)?.label;
+  return label ? `${label} (${column})` : column;
+}
+
+function evenClamp(value: number, min: number, max: number): number {
+  const clamped = Math.min(max, Math.max(min, value));
+  return clamped - (clamped % 2);
+}
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+}
+
+// Small seeded PRNG so the same input always gets the same explanation
+export function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Waterfall from the reference probability to the prediction, one bar per feature
+export function renderExplanation(container: HTMLElement, explanation: Explanation, className: string) {
+  const { referenceProbability, probability, contributions, permutations } = explanation;
+
+  if (contributions.length === 0) {
+    container.innerHTML = `
+      <h5>🧭 Why ${className}?</h5>
+      <div class="explanation-note">Every feature is at its training default, so there is nothing to attribute.</div>
+    `;
+    return;
+  }
+
+  const shown = contributions.slice(0, WATERFALL_FEATURES);
+  const rest = contributions.slice(WATERFALL_FEATURES);
+  const steps = shown.map(c => ({
+    label: c.label,
+    detail: `${formatValue(c.value)} (default ${formatValue(c.reference)})`,
+    delta: c.contribution
+  }));
+  if (rest.length > 0) {
+    steps.push({
+      label: `${rest.length} other feature${rest.length === 1 ? '' : 's'}`,
+      detail: '',
+      delta: rest.reduce((sum, c) => sum + c.contribution, 0)
+    });
+  }
+
+  let running = referenceProbability;
+  const bars = steps.map(step => {
+    const start = running;
+    running += step.delta;
+    const left = Math.min(start, running) * 100;
+    const width = Math.max(Math.abs(step.delta) * 100, 0.5);
+    const direction = step.delta >= 0 ? 'up' : 'down';
+    return `
+      <div class="waterfall-row" title="${step.detail}">
+        <div class="waterfall-label">${step.label}</div>
+        <div class="waterfall-track">
+          <div class="waterfall-bar waterfall-${direction}" style="left: ${left}%; width: ${width}%;"></div>
+        </div>
+        <div class="waterfall-value waterfall-${direction}-text">${step.delta >= 0 ? '+' : ''}${(step.delta * 100).toFixed(1)}</div>
+      </div>
+    `;
+  }).join('');
+
+  container.innerHTML = `
+    <h5>🧭 Why ${className}?</h5>
+    <div class="explanation-note">
+      Contribution of each entered feature to the ${className} probability, in percentage points,
+      relative to an object with every feature at its training default.
+    </div>
+    <div class="waterfall">
+      <div class="waterfall-row waterfall-total">
+        <div class="waterfall-label">Default object</div>
+        <div class="waterfall-track"><div class="waterfall-marker" style="left: ${referenceProbability * 100}%;"></div></div>
+        <div class="waterfall-value">${(referenceProbability * 100).toFixed(1)}%</div>
+      </div>
+      ${bars}
+      <div class="waterfall-row waterfall-total">
+        <div class="waterfall-label">This object</div>
+        <div class="waterfall-track"><div class="waterfall-marker" style="left: ${probability * 100}%;"></div></div>
+        <div class="waterfall-value">${(probability * 100).toFixed(1)}%</div>
+      </div>
+    </div>
+    <div class="explanation-note">
+      Sampled Shapley values, ${permutations > 0 ? `${permutations} feature orderings` : 'exact'}; contributions sum to the difference between the two totals.
+    </div>
+  `;
+}
+
+function formatValue(value: number): string {
+  return Math.abs(value) >= 1000 || (Math.abs(value) < 0.01 && value !== 0) ? value.toExponential(2) : String(+value.toFixed(3));
+}
@@ -0,0 +1,150 @@
+import { PredictionRecord } from './types';
+
+// Serialization of prediction records to CSV, JSON and IVOA VOTable
+
+export type ExportFormat = 'csv' | 'json' | 'votable';
+
+interface ExportColumn {
+  name: string;
+  datatype: 'char' | 'double' | 'int';
+  ucd?: string;
+  unit?: string;
+  description: string;
+  value: (record: PredictionRecord) => string | number | null;
+}
+
+const METRIC_COLUMNS: ExportColumn[] = [
+  { name: 'model_type', datatype: 'char', ucd: 'meta.code', description: 'Classifier algorithm', value: r => r.metrics?.model_type ?? null },
+  { name: 'model_accuracy', datatype: 'double', ucd: 'stat.value', description: 'Test accuracy of the model (0-1)', value: r => r.metrics?.accuracy_score ?? null },
+  { name: 'model_precision', datatype: 'double', ucd: 'stat.value', description: 'Support-weighted test precision of the model (0-1)', value: r => r.metrics?.precision_score ?? null },
+  { name: 'model_recall', datatype: 'double', ucd: 'stat.value', description: 'Support-weighted test recall of the model (0-1)', value: r => r.metrics?.recall_score ?? null },
+  { name: 'model_f1', datatype: 'double', ucd: 'stat.value', description: 'Support-weighted test F1 of the model (0-1)', value: r => r.metrics?.f1_score ?? null },
+  { name: 'model_roc_auc', datatype: 'double', ucd: 'stat.value', description: 'One-vs-rest test ROC AUC of the model (0-1)', value: r => r.metrics?.roc_auc_score ?? null },
+  { name: 'model_cv_mean', datatype: 'double', ucd: 'stat.value', description: 'Mean cross-validation score of the model on the training set (0-1)', value: r => r.metrics?.cv_mean ?? null },
+  { name: 'model_cv_std', datatype: 'double', ucd: 'stat.error', description: 'Standard deviation of the cross-validation scores (0-1)', value: r => r.metrics?.cv_std ?? null },
+  { name: 'model_features', datatype: 'int', ucd: 'meta.number', description: 'Number of model input features', value: r => r.metrics?.features_count ?? null },
+  { name: 'model_training_samples', datatype: 'int', ucd: 'meta.number', description: 'Number of training samples', value: r => r.metrics?.training_samples ?? null }
+];
+
+// Column layout shared by CSV and VOTable; class and input columns depend on the records
+function buildColumns(records: PredictionRecord[]): ExportColumn[] {
+  const classNames = unique(records.flatMap(r => r.class_names));
+  const inputNames = unique(records.flatMap(r => Object.keys(r.inputs)));
+
+  return [
+    { name: 'timestamp', datatype: 'char', ucd: 'time.creation', description: 'Time of prediction (ISO 8601, UTC)', value: r => r.timestamp },
+    { name: 'model', datatype: 'char', ucd: 'meta.code', description: 'Mission model used', value: r => r.model },
+    { name: 'object', datatype: 'char', ucd: 'meta.id;meta.main', description: 'Object identifier or input description', value: r => r.object },
+    { name: 'predicted_class', datatype: 'char', ucd: 'src.class', description: 'Predicted disposition', value: r => r.predicted_class },
+    { name: 'inference', datatype: 'char', ucd: 'meta.code', description: 'onnx = model inference, demo = simulated output (not a prediction)', value: r => r.source },
+    { name: 'confidence', datatype: 'double', ucd: 'stat.probability', unit: '%', description: 'Probability of the predicted class', value: r => r.confidence },
+    ...classNames.map((name): ExportColumn => ({
+      name: `p_${name}`,
+      datatype: 'double',
+      ucd: 'stat.probability',
+      description: `Probability of class ${name}`,
+      value: r => {
+        const index = r.class_names.indexOf(name);
+        return index >= 0 ? r.probabilities[index] : null;
+      }
+    })),
+    ...METRIC_COLUMNS,
+    ...inputNames.map((name): ExportColumn => ({
+      name: `input_${name}`,
+      datatype: 'double',
+      description: `Input value ${name}`,
+      value: r => r.inputs[name] ?? null
+    }))
+  ];
+}
+
+export function toCsv(records: PredictionRecord[]): string {
+  const columns = buildColumns(records);
+  const lines = [columns.map(c => csvCell(c.name)).join(',')];
+  for (const record of records) {
+    lines.push(columns.map(c => csvCell(c.value(record))).join(','));
+  }
+  return lines.join('\n') + '\n';
+}
+
+export function toJson(records: PredictionRecord[]): string {
+  return JSON.stringify(records, null, 2);
+}
+
+export function toVOTable(records: PredictionRecord[]): string {
+  const columns = buildColumns(records);
+
+  const fields = columns.map(c => {
+    const attributes = [
+      `name="${xml(c.name)}"`,
+      `datatype="${c.datatype}"`,
+      c.datatype === 'char' ? 'arraysize="*"' : '',
+      c.ucd ? `ucd="${c.ucd}"` : '',
+      c.unit ? `unit="${c.unit}"` : ''
+    ].filter(Boolean).join(' ');
+    return `      <FIELD ${attributes}>\n        <DESCRIPTION>${xml(c.description)}</DESCRIPTION>\n      </FIELD>`;
+  });
+
+  const rows = records.map(record => {
+    const cells = columns.map(c => {
+      const value = c.value(record);
+      return `<TD>${value === null || (typeof value === 'number' && !Number.isFinite(value)) ? '' : xml(String(value))}</TD>`;
+    });
+    return `          <TR>${cells.join('')}</TR>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<VOTABLE version="1.4" xmlns="http://www.ivoa.net/xml/VOTable/v1.3">',
+    '  <RESOURCE type="results">',
+    '    <DESCRIPTION>NASA Exoplanet Hunter classification results</DESCRIPTION>',
+    '    <TABLE name="predictions">',
+    ...fields,
+    '      <DATA>',
+    '        <TABLEDATA>',
+    ...rows,
+    '        </TABLEDATA>',
+    '      </DATA>',
+    '    </TABLE>',
+    '  </RESOURCE>',
+    '</VOTABLE>',
+    ''
+  ].join('\n');
+}
+
+export function downloadRecords(records: PredictionRecord[], format: ExportFormat, baseName: string) {
+  const outputs = {
+    csv: { text: () => toCsv(records), type: 'text/csv', extension: 'csv' },
+    json: { text: () => toJson(records), type: 'application/json', extension: 'json' },
+    votable: { text: () => toVOTable(records), type: 'application/x-votable+xml', extension: 'vot' }
+  };
+  const output = outputs[format];
+
+  const blob = new Blob([output.text()], { type: output.type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${baseName}.${output.extension}`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+function csvCell(value: string | number | null): string {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function xml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values));
+}
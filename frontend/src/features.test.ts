@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { assembleFeatureVector, FeatureSchema, resolveColumn } from './features';
+import k2Features from '../public/models/k2/k2_features.json';
+import keplerFeatures from '../public/models/kepler/kepler_features.json';
+import tessDataInfo from '../public/models/tess/data_info.json';
+import tessFeatures from '../public/models/tess/tess_features.json';
+
+const schema: FeatureSchema = {
+  mission: 'test',
+  source: 'synthetic',
+  feature_count: 3,
+  feature_names: ['pl_orbper', 'pl_trandep', 'st_rad'],
+  default_strategy: 'training median',
+  defaults: { pl_orbper: 10, pl_trandep: 500, st_rad: 1 },
+  inputs: {
+    orbital_period: { column: 'pl_orbper' },
+    transit_depth: { column: 'pl_trandep', scale: 1e6 } // form in fractional depth, column in ppm
+  }
+};
+
+describe('resolveColumn', () => {
+  it('maps form fields through the schema and passes model columns through', () => {
+    expect(resolveColumn(schema, 'transit_depth')).toEqual({ column: 'pl_trandep', scale: 1e6 });
+    expect(resolveColumn(schema, 'orbital_period')).toEqual({ column: 'pl_orbper', scale: 1 });
+    expect(resolveColumn(schema, 'st_rad')).toEqual({ column: 'st_rad', scale: 1 });
+    expect(resolveColumn(schema, 'koi_period')).toBeNull();
+  });
+});
+
+describe('assembleFeatureVector', () => {
+  it('orders and scales the entered values and fills the rest with defaults', () => {
+    const { vector, provided, imputed } = assembleFeatureVector(schema, { transit_depth: 0.002, orbital_period: 3.5 });
+
+    expect(Array.from(vector)).toEqual([3.5, 2000, 1]);
+    expect(provided).toEqual(['pl_orbper', 'pl_trandep']);
+    expect(imputed).toEqual(['st_rad']);
+  });
+
+  it('treats missing and non-finite values as not entered', () => {
+    const { vector, imputed } = assembleFeatureVector(schema, { orbital_period: NaN, transit_depth: null, st_rad: undefined, unknown: 4 });
+
+    expect(Array.from(vector)).toEqual([10, 500, 1]);
+    expect(imputed).toEqual(schema.feature_names);
+  });
+});
+
+describe('shipped feature lists', () => {
+  const schemas = [k2Features, keplerFeatures, tessFeatures] as FeatureSchema[];
+
+  it.each(schemas.map(features => [features.mission, features] as const))('%s: names, defaults and inputs agree', (_, features) => {
+    expect(features.feature_names).toHaveLength(features.feature_count);
+    expect(new Set(features.feature_names).size).toBe(features.feature_count);
+    for (const name of features.feature_names) {
+      expect(Number.isFinite(features.defaults[name]), name).toBe(true);
+    }
+    for (const mapping of Object.values(features.inputs)) {
+      expect(features.feature_names).toContain(mapping.column);
+    }
+  });
+
+  it('tess: columns are the ones the TESS scaler and test split were built on', () => {
+    expect(tessFeatures.feature_names).toEqual(tessDataInfo.feature_names);
+  });
+});
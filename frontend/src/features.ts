@@ -0,0 +1,84 @@
+// Feature assembly for the mission models.
+// Every mission ships a `<mission>_features.json` next to its ONNX files. It lists the
+// columns in the exact order the scaler was fitted on, the value used when a column is
+// not supplied, and which manual-form field feeds which column.
+
+export interface FeatureInputMapping {
+  column: string;
+  scale?: number; // unit conversion from the form field to the catalog column
+}
+
+export interface FeatureSchema {
+  mission: string;
+  source: string;
+  feature_count: number;
+  feature_names: string[];
+  default_strategy: string;
+  defaults: { [column: string]: number };
+  inputs: { [field: string]: FeatureInputMapping };
+}
+
+export interface AssembledFeatures {
+  vector: Float32Array;
+  provided: string[];
+  imputed: string[];
+}
+
+export type FeatureValues = { [fieldOrColumn: string]: number | null | undefined };
+
+export async function loadFeatureSchema(modelName: string, file = `${modelName}_features.json`): Promise<FeatureSchema> {
+  const path = `/models/${modelName}/${file}`;
+  const response = await fetch(path);
+  if (!response.ok) {
+    throw new Error(`Feature list not found at ${path} (HTTP ${response.status})`);
+  }
+
+  const schema = await response.json() as FeatureSchema;
+  if (!Array.isArray(schema.feature_names) || schema.feature_names.length !== schema.feature_count) {
+    throw new Error(`Feature list for ${modelName} is inconsistent: expected ${schema.feature_count} names`);
+  }
+  return schema;
+}
+
+// Resolve a form field or a raw catalog column name to the column it fills
+export function resolveColumn(schema: FeatureSchema, key: string): { column: string; scale: number } | null {
+  const mapping = schema.inputs[key];
+  if (mapping) {
+    return { column: mapping.column, scale: mapping.scale ?? 1 };
+  }
+  if (schema.feature_names.includes(key)) {
+    return { column: key, scale: 1 };
+  }
+  return null;
+}
+
+// Build the ordered, unscaled vector the mission scaler expects.
+// Values may be keyed by form field (`orbital_period`) or catalog column (`pl_orbper`);
+// anything missing falls back to the documented default for that column.
+export function assembleFeatureVector(schema: FeatureSchema, values: FeatureValues): AssembledFeatures {
+  const columnValues: { [column: string]: number } = {};
+
+  for (const [key, value] of Object.entries(values)) {
+    if (value === null || value === undefined || !Number.isFinite(value)) continue;
+    const target = resolveColumn(schema, key);
+    if (target) {
+      columnValues[target.column] = value * target.scale;
+    }
+  }
+
+  const vector = new Float32Array(schema.feature_count);
+  const provided: string[] = [];
+  const imputed: string[] = [];
+
+  schema.feature_names.forEach((column, index) => {
+    if (column in columnValues) {
+      vector[index] = columnValues[column];
+      provided.push(column);
+    } else {
+      vector[index] = schema.defaults[column] ?? 0;
+      imputed.push(column);
+    }
+  });
+
+  return { vector, provided, imputed };
+}
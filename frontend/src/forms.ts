@@ -0,0 +1,136 @@
+import { FeatureValues } from './features';
+import { escapeHtml } from './html';
+import { FormField, MissionForm } from './manifest';
+
+// Manual-input forms generated from each mission's manifest
+
+export type FormReadResult =
+  | { ok: true; values: FeatureValues; errors: FeatureValues }
+  | { ok: false; field: string; message: string };
+
+export function fieldId(mission: string, field: string): string {
+  return `${mission}-${field}`;
+}
+
+// Optional ± (1σ) input next to a field
+export function errorFieldId(mission: string, field: string): string {
+  return `${fieldId(mission, field)}-err`;
+}
+
+export function renderMissionForm(mission: string, displayName: string, form: MissionForm): string {
+  return `
+    <div class="form-description">
+      <strong>${escapeHtml(displayName)} Mission Format:</strong> ${escapeHtml(form.description)}
+    </div>
+    ${renderFormFields(mission, form.fields, true)}
+  `;
+}
+
+export function renderFormFields(mission: string, fields: FormField[], withErrors = false): string {
+  return `
+    <div class="manual-form">
+      ${fields.map(field => renderField(mission, field, withErrors)).join('')}
+    </div>
+  `;
+}
+
+function renderField(mission: string, field: FormField, withErrors: boolean): string {
+  const id = fieldId(mission, field.name);
+  const attributes = [
+    `type="number"`,
+    `id="${id}"`,
+    `placeholder="${field.placeholder}"`,
+    `step="${field.step}"`,
+    field.min !== undefined ? `min="${field.min}"` : '',
+    field.max !== undefined ? `max="${field.max}"` : '',
+    field.required ? 'required' : ''
+  ].filter(Boolean).join(' ');
+
+  const input = withErrors
+    ? `<div class="input-with-error">
+          <input ${attributes}>
+          <input type="number" class="error-input" id="${errorFieldId(mission, field.name)}" placeholder="± σ" step="${field.step}" min="0" title="Optional 1σ measurement uncertainty">
+        </div>`
+    : `<input ${attributes}>`;
+
+  return `
+      <div class="form-field">
+        <label for="${id}">${escapeHtml(field.label)}${field.required ? ' *' : ''}</label>
+        ${input}
+      </div>`;
+}
+
+export function renderPresetButtons(form: MissionForm): string {
+  return form.presets
+    .map(preset => `<button class="auto-fill-btn" data-type="${escapeHtml(preset.id)}">${escapeHtml(preset.label)}</button>`)
+    .join('');
+}
+
+// Read and validate the generated form; empty optional fields are left for imputation.
+// Uncertainties are only kept for fields that have a value.
+export function readMissionForm(mission: string, form: MissionForm): FormReadResult {
+  const values: FeatureValues = {};
+  const errors: FeatureValues = {};
+
+  for (const field of form.fields) {
+    const input = document.getElementById(fieldId(mission, field.name)) as HTMLInputElement | null;
+    const text = input?.value.trim() ?? '';
+
+    if (text === '') {
+      if (field.required) {
+        return { ok: false, field: field.name, message: `${field.label} is required` };
+      }
+      continue;
+    }
+
+    const value = Number(text);
+    if (!Number.isFinite(value)) {
+      return { ok: false, field: field.name, message: `${field.label} must be a number` };
+    }
+    if (field.min !== undefined && value < field.min) {
+      return { ok: false, field: field.name, message: `${field.label} must be at least ${field.min}` };
+    }
+    if (field.max !== undefined && value > field.max) {
+      return { ok: false, field: field.name, message: `${field.label} must be at most ${field.max}` };
+    }
+    values[field.name] = value;
+
+    const errorInput = document.getElementById(errorFieldId(mission, field.name)) as HTMLInputElement | null;
+    const errorText = errorInput?.value.trim() ?? '';
+    if (errorText === '') continue;
+
+    const error = Number(errorText);
+    if (!Number.isFinite(error) || error < 0) {
+      return { ok: false, field: field.name, message: `${field.label} uncertainty must be a number of at least 0` };
+    }
+    if (error > 0) errors[field.name] = error;
+  }
+
+  return { ok: true, values, errors };
+}
+
+// Whatever numbers are currently entered, without validation (for live checks while typing)
+export function peekMissionForm(mission: string, form: MissionForm): FeatureValues {
+  const values: FeatureValues = {};
+  for (const field of form.fields) {
+    const input = document.getElementById(fieldId(mission, field.name)) as HTMLInputElement | null;
+    const text = input?.value.trim() ?? '';
+    if (text !== '' && Number.isFinite(Number(text))) {
+      values[field.name] = Number(text);
+    }
+  }
+  return values;
+}
+
+// Entered ± uncertainties, without validation
+export function peekFieldErrors(mission: string, form: MissionForm): FeatureValues {
+  const errors: FeatureValues = {};
+  for (const field of form.fields) {
+    const input = document.getElementById(errorFieldId(mission, field.name)) as HTMLInputElement | null;
+    const text = input?.value.trim() ?? '';
+    if (text !== '' && Number.isFinite(Number(text))) {
+      errors[field.name] = Number(text);
+    }
+  }
+  return errors;
+}
@@ -0,0 +1,213 @@
+import { FeatureValues } from './features';
+import { escapeHtml } from './html';
+import { PredictionRecord } from './types';
+
+// Persistent history of manual predictions, kept in the browser's IndexedDB.
+// Each entry stores the prediction record plus what is needed to run it again:
+// the entered ± uncertainties and the catalog row the form was filled from, if any.
+
+export interface HistoryEntry {
+  id?: number; // assigned by IndexedDB
+  record: PredictionRecord;
+  errors: FeatureValues;
+  catalog: { label: string; source: string; values: FeatureValues } | null;
+}
+
+export interface HistoryFilter {
+  query: string;
+  mission: string; // '' for all
+  predictedClass: string; // '' for all
+}
+
+const DB_NAME = 'exoplanet-hunter';
+const DB_VERSION = 1;
+const STORE = 'predictions';
+
+export class PredictionHistory {
+  private constructor(private db: IDBDatabase) {}
+
+  static open(): Promise<PredictionHistory> {
+    return new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: 'id', autoIncrement: true });
+      };
+      request.onsuccess = () => resolve(new PredictionHistory(request.result));
+      request.onerror = () => reject(request.error ?? new Error('Could not open the history database'));
+      request.onblocked = () => reject(new Error('History database is locked by another tab'));
+    });
+  }
+
+  async add(entry: HistoryEntry): Promise<number> {
+    const { id: _, ...stored } = entry;
+    return await this.request('readwrite', store => store.add(stored)) as number;
+  }
+
+  // Newest first
+  async list(): Promise<HistoryEntry[]> {
+    const entries = await this.request('readonly', store => store.getAll()) as HistoryEntry[];
+    return entries.sort((a, b) => (b.id ?? 0) - (a.id ?? 0));
+  }
+
+  async delete(id: number): Promise<void> {
+    await this.request('readwrite', store => store.delete(id));
+  }
+
+  async clear(): Promise<void> {
+    await this.request('readwrite', store => store.clear());
+  }
+
+  private request(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      const transaction = this.db.transaction(STORE, mode);
+      const request = operation(transaction.objectStore(STORE));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error ?? request.error);
+      transaction.onabort = () => reject(transaction.error ?? new Error('History transaction aborted'));
+    });
+  }
+}
+
+export function filterHistory(entries: HistoryEntry[], filter: HistoryFilter): HistoryEntry[] {
+  const terms = filter.query.toLowerCase().split(/\s+/).filter(Boolean);
+
+  return entries.filter(({ record }) => {
+    if (filter.mission && record.model !== filter.mission) return false;
+    if (filter.predictedClass && record.predicted_class !== filter.predictedClass) return false;
+
+    const text = [
+      record.object,
+      record.model,
+      record.predicted_class,
+      ...Object.entries(record.inputs).map(([field, value]) => `${field}=${value}`)
+    ].join(' ').toLowerCase();
+    return terms.every(term => text.includes(term));
+  });
+}
+
+// Browsable list with search and filters; actions go back to the app through callbacks
+export class HistoryPanel {
+  private entries: HistoryEntry[] = [];
+  private filter: HistoryFilter = { query: '', mission: '', predictedClass: '' };
+
+  constructor(
+    private container: HTMLElement,
+    private missionName: (mission: string) => string,
+    private actions: {
+      rerun: (entry: HistoryEntry) => void;
+      remove: (id: number) => void;
+      clear: () => void;
+    }
+  ) {
+    this.container.addEventListener('input', (e) => {
+      const target = e.target as HTMLInputElement | HTMLSelectElement;
+      const key = target.dataset.historyFilter as keyof HistoryFilter | undefined;
+      if (!key) return;
+      this.filter[key] = target.value;
+      this.renderList();
+    });
+
+    this.container.addEventListener('click', (e) => {
+      const target = e.target as HTMLElement;
+
+      const action = target.closest('[data-history-action]') as HTMLElement | null;
+      if (!action) return;
+
+      if (action.dataset.historyAction === 'clear') {
+        if (confirm(`Delete all ${this.entries.length} saved predictions?`)) this.actions.clear();
+        return;
+      }
+
+      const entry = this.entries.find(e => e.id === Number(action.dataset.historyId));
+      if (!entry) return;
+      if (action.dataset.historyAction === 'rerun') this.actions.rerun(entry);
+      if (action.dataset.historyAction === 'delete') this.actions.remove(entry.id!);
+    });
+  }
+
+  update(entries: HistoryEntry[]) {
+    this.entries = entries;
+
+    // Keep filters that still match something
+    const missions = this.missions();
+    const classes = this.classes();
+    if (!missions.includes(this.filter.mission)) this.filter.mission = '';
+    if (!classes.includes(this.filter.predictedClass)) this.filter.predictedClass = '';
+
+    this.container.innerHTML = `
+      <div class="history-controls">
+        <input type="search" class="lookup-query" data-history-filter="query" placeholder="Search object, class or input value..." value="${escapeHtml(this.filter.query)}">
+        <select data-history-filter="mission">
+          <option value="">All missions</option>
+          ${missions.map(m => `<option value="${escapeHtml(m)}" ${m === this.filter.mission ? 'selected' : ''}>${escapeHtml(this.missionName(m))}</option>`).join('')}
+        </select>
+        <select data-history-filter="predictedClass">
+          <option value="">All classes</option>
+          ${classes.map(c => `<option value="${escapeHtml(c)}" ${c === this.filter.predictedClass ? 'selected' : ''}>${escapeHtml(c)}</option>`).join('')}
+        </select>
+        <button class="export-btn" data-history-action="clear" ${entries.length === 0 ? 'disabled' : ''}>🗑️ Clear all</button>
+      </div>
+      <div class="history-list"></div>
+    `;
+    this.renderList();
+  }
+
+  private missions(): string[] {
+    return [...new Set(this.entries.map(e => e.record.model))].sort();
+  }
+
+  private classes(): string[] {
+    return [...new Set(this.entries.map(e => e.record.predicted_class))].sort();
+  }
+
+  private renderList() {
+    const list = this.container.querySelector('.history-list');
+    if (!list) return;
+
+    if (this.entries.length === 0) {
+      list.innerHTML = '<div class="explanation-note">No saved predictions yet. Manual predictions are saved here automatically.</div>';
+      return;
+    }
+
+    const shown = filterHistory(this.entries, this.filter);
+    list.innerHTML = `
+      <div class="explanation-note">${shown.length} of ${this.entries.length} saved predictions</div>
+      ${shown.length === 0 ? '' : `
+        <table class="batch-table">
+          <thead>
+            <tr>
+              <th>Time</th>
+              <th>Mission</th>
+              <th>Object</th>
+              <th>Prediction</th>
+              <th>Inputs</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            ${shown.map(({ id, record, catalog }) => `
+              <tr>
+                <td title="${escapeHtml(record.timestamp)}">${new Date(record.timestamp).toLocaleString()}</td>
+                <td>${escapeHtml(this.missionName(record.model))}</td>
+                <td>${escapeHtml(record.object)}${record.source === 'demo' ? ' 🧪' : ''}</td>
+                <td title="${record.class_names.map((name, i) => `${name}: ${(record.probabilities[i] * 100).toFixed(1)}%`).join(', ')}">
+                  <strong>${escapeHtml(record.predicted_class)}</strong> ${record.confidence.toFixed(1)}%
+                </td>
+                <td class="history-inputs">${Object.entries(record.inputs).map(([field, value]) => `${escapeHtml(field)}=${value}`).join(', ')}${catalog ? ' + catalog row' : ''}</td>
+                <td class="history-actions">
+                  <button class="export-btn" data-history-action="rerun" data-history-id="${id}" title="Load these inputs and predict with the current model">↻ Re-run</button>
+                  <button class="export-btn" data-history-action="delete" data-history-id="${id}" title="Delete this entry">✕</button>
+                </td>
+              </tr>
+            `).join('')}
+          </tbody>
+        </table>
+      `}
+    `;
+  }
+}
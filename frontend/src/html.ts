@@ -0,0 +1,5 @@
+// Escaping for values interpolated into the app's HTML template strings
+
+export function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
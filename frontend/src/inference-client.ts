@@ -0,0 +1,125 @@
+import { TensorCheck } from './diagnostics';
+import { WorkerRequest, WorkerResponse } from './inference-protocol';
+import { ModelManifest } from './manifest';
+import { RuntimeConfig } from './runtime';
+import { PredictionOutput } from './types';
+
+// Promise API over inference.worker.ts
+
+export class InferenceError extends Error {
+  constructor(message: string, public checks: TensorCheck[] = [], public notes: string[] = []) {
+    super(message);
+    this.name = 'InferenceError';
+  }
+}
+
+export class CancelledError extends Error {
+  constructor() {
+    super('Cancelled');
+    this.name = 'CancelledError';
+  }
+}
+
+interface Pending {
+  resolve: (response: WorkerResponse) => void;
+  reject: (error: Error) => void;
+  onProgress?: (done: number, total: number) => void;
+}
+
+// Distributive Omit so each request variant keeps its own fields
+type RequestBody = WorkerRequest extends infer R ? R extends WorkerRequest ? Omit<R, 'id'> : never : never;
+
+export class InferenceClient {
+  private worker = new Worker(new URL('./inference.worker.ts', import.meta.url), { type: 'module' });
+  private pending = new Map<number, Pending>();
+  private nextId = 1;
+
+  // Resolves to the onnxruntime-web version once the worker has applied the configuration
+  readonly ready: Promise<string | null>;
+
+  constructor(readonly config: RuntimeConfig) {
+    this.worker.onmessage = (event: MessageEvent<WorkerResponse>) => this.handle(event.data);
+    this.worker.onerror = (event) => {
+      console.error('❌ Inference worker crashed:', event.message);
+      for (const pending of this.pending.values()) {
+        pending.reject(new InferenceError(`Inference worker crashed: ${event.message}`));
+      }
+      this.pending.clear();
+    };
+
+    this.ready = this.send({ type: 'configure', numThreads: config.numThreads, simd: config.simd })
+      .then(response => response.type === 'configured' ? response.version : null);
+  }
+
+  dispose() {
+    this.worker.terminate();
+    for (const pending of this.pending.values()) {
+      pending.reject(new CancelledError());
+    }
+    this.pending.clear();
+  }
+
+  async load(mission: string, modelUrl: string, scalerUrl: string, manifest: ModelManifest, featureCount: number) {
+    const response = await this.send({ type: 'load', mission, modelUrl, scalerUrl, manifest, featureCount });
+    if (response.type !== 'loaded') throw new InferenceError(`Unexpected ${response.type} reply to load`);
+    return { checks: response.checks, notes: response.notes };
+  }
+
+  async predict(mission: string, data: Float32Array): Promise<PredictionOutput> {
+    const response = await this.send({ type: 'predict', mission, data });
+    if (response.type !== 'result') throw new InferenceError(`Unexpected ${response.type} reply to predict`);
+    return response.results[0];
+  }
+
+  // Returns the request id (for cancel) alongside the result promise
+  predictBatch(
+    mission: string,
+    data: Float32Array,
+    rows: number,
+    batchSize: number,
+    onProgress: (done: number, total: number) => void
+  ): { id: number; results: Promise<PredictionOutput[]> } {
+    const id = this.nextId;
+    const results = this.send({ type: 'predictBatch', mission, data, rows, batchSize }, onProgress, [data.buffer as ArrayBuffer])
+      .then(response => {
+        if (response.type !== 'result') throw new InferenceError(`Unexpected ${response.type} reply to predictBatch`);
+        return response.results;
+      });
+    return { id, results };
+  }
+
+  cancel(id: number) {
+    this.worker.postMessage({ type: 'cancel', id } satisfies WorkerRequest);
+  }
+
+  private send(
+    body: RequestBody,
+    onProgress?: (done: number, total: number) => void,
+    transfer: Transferable[] = []
+  ): Promise<WorkerResponse> {
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject, onProgress });
+      this.worker.postMessage({ ...body, id } as WorkerRequest, transfer);
+    });
+  }
+
+  private handle(response: WorkerResponse) {
+    const pending = this.pending.get(response.id);
+    if (!pending) return;
+
+    if (response.type === 'progress') {
+      pending.onProgress?.(response.done, response.total);
+      return;
+    }
+
+    this.pending.delete(response.id);
+    if (response.type === 'error') {
+      pending.reject(new InferenceError(response.message, response.checks, response.notes));
+    } else if (response.type === 'cancelled') {
+      pending.reject(new CancelledError());
+    } else {
+      pending.resolve(response);
+    }
+  }
+}
@@ -0,0 +1,88 @@
+import { TensorCheck } from './diagnostics';
+import { ModelManifest } from './manifest';
+import { PredictionOutput } from './types';
+
+// Messages between the page and inference.worker.ts.
+// Every request carries an `id`; the worker answers with messages carrying the same id.
+
+// Must be the first message: ONNX Runtime reads its WebAssembly flags once, on first session creation
+export interface ConfigureRequest {
+  type: 'configure';
+  id: number;
+  numThreads: number;
+  simd: boolean;
+}
+
+export interface LoadRequest {
+  type: 'load';
+  id: number;
+  mission: string;
+  modelUrl: string;
+  scalerUrl: string;
+  manifest: ModelManifest;
+  featureCount: number;
+}
+
+export interface PredictRequest {
+  type: 'predict';
+  id: number;
+  mission: string;
+  data: Float32Array; // one unscaled feature row
+}
+
+export interface PredictBatchRequest {
+  type: 'predictBatch';
+  id: number;
+  mission: string;
+  data: Float32Array; // `rows` stacked unscaled feature rows
+  rows: number;
+  batchSize: number;
+}
+
+export interface CancelRequest {
+  type: 'cancel';
+  id: number; // id of the predictBatch request to stop
+}
+
+export type WorkerRequest = ConfigureRequest | LoadRequest | PredictRequest | PredictBatchRequest | CancelRequest;
+
+export interface ConfiguredResponse {
+  type: 'configured';
+  id: number;
+  version: string | null; // onnxruntime-web version
+}
+
+export interface LoadedResponse {
+  type: 'loaded';
+  id: number;
+  checks: TensorCheck[];
+  notes: string[];
+}
+
+export interface ResultResponse {
+  type: 'result';
+  id: number;
+  results: PredictionOutput[];
+}
+
+export interface ProgressResponse {
+  type: 'progress';
+  id: number;
+  done: number;
+  total: number;
+}
+
+export interface CancelledResponse {
+  type: 'cancelled';
+  id: number;
+}
+
+export interface ErrorResponse {
+  type: 'error';
+  id: number;
+  message: string;
+  checks?: TensorCheck[]; // present when a load failed the tensor checks
+  notes?: string[];
+}
+
+export type WorkerResponse = ConfiguredResponse | LoadedResponse | ResultResponse | ProgressResponse | CancelledResponse | ErrorResponse;
@@ -0,0 +1,176 @@
+import * as ort from 'onnxruntime-web';
+import { checkSessions, describeFailures, TensorCheck } from './diagnostics';
+import { LoadRequest, PredictBatchRequest, WorkerRequest, WorkerResponse } from './inference-protocol';
+import { ModelManifest } from './manifest';
+import { stripZipMap } from './onnx';
+import { PredictionOutput } from './types';
+
+// Inference worker: owns the ONNX sessions so scaling and classification never block the page.
+// Thread count and SIMD arrive in the initial `configure` message (see runtime.ts).
+
+interface LoadedMission {
+  model: ort.InferenceSession;
+  scaler: ort.InferenceSession;
+  manifest: ModelManifest;
+  featureCount: number;
+}
+
+// A mission artifact that is not deployed under public/models
+class MissingArtifactError extends Error {
+  constructor(public path: string, detail: string) {
+    super(`Missing model artifact ${path} (${detail})`);
+    this.name = 'MissingArtifactError';
+  }
+}
+
+// ONNX sessions whose tensors do not match the manifest and feature list
+class IncompatibleArtifactError extends Error {
+  constructor(public checks: TensorCheck[], public notes: string[]) {
+    super(`Incompatible ONNX artifacts: ${describeFailures(checks)}`);
+    this.name = 'IncompatibleArtifactError';
+  }
+}
+
+const missions = new Map<string, LoadedMission>();
+const cancelled = new Set<number>();
+
+const post = (message: WorkerResponse) => self.postMessage(message);
+
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'cancel') {
+    cancelled.add(request.id);
+    return;
+  }
+
+  try {
+    if (request.type === 'configure') {
+      ort.env.wasm.numThreads = request.numThreads;
+      ort.env.wasm.simd = request.simd;
+      post({ type: 'configured', id: request.id, version: ort.env.versions?.web ?? null });
+    } else if (request.type === 'load') {
+      const { checks, notes } = await load(request);
+      post({ type: 'loaded', id: request.id, checks, notes });
+    } else if (request.type === 'predict') {
+      const results = await run(loaded(request.mission), request.data, 1);
+      post({ type: 'result', id: request.id, results });
+    } else if (request.type === 'predictBatch') {
+      const results = await runBatch(request);
+      post(results ? { type: 'result', id: request.id, results } : { type: 'cancelled', id: request.id });
+    }
+  } catch (error) {
+    console.error(`❌ Inference worker ${request.type} failed:`, error);
+    post({
+      type: 'error',
+      id: request.id,
+      message: errorMessage(request.type, error),
+      ...(error instanceof IncompatibleArtifactError ? { checks: error.checks, notes: error.notes } : {})
+    });
+  } finally {
+    cancelled.delete(request.id);
+  }
+};
+
+async function load(request: LoadRequest): Promise<{ checks: TensorCheck[]; notes: string[] }> {
+  const { manifest, featureCount } = request;
+  missions.delete(request.mission);
+
+  const notes: string[] = [];
+  const modelBytes = await fetchModelArtifact(request.modelUrl);
+  // onnxruntime-web cannot read ZipMap (sequence of maps) outputs; use the tensor underneath
+  const decodedBytes = stripZipMap(modelBytes);
+  if (decodedBytes) {
+    notes.push(`${manifest.model.path}: ZipMap probability output decoded to a float tensor`);
+  }
+  const model = await ort.InferenceSession.create(decodedBytes ?? modelBytes);
+  const scaler = await ort.InferenceSession.create(await fetchModelArtifact(request.scalerUrl));
+
+  // Tensor names, types and widths must match the manifest and feature list
+  const checks = checkSessions(manifest, featureCount, scaler, model);
+  if (checks.some(c => !c.ok)) {
+    throw new IncompatibleArtifactError(checks, notes);
+  }
+
+  missions.set(request.mission, { model, scaler, manifest, featureCount });
+  return { checks, notes };
+}
+
+// Fetch an ONNX file, refusing the HTML page the dev server answers unknown paths with
+async function fetchModelArtifact(path: string): Promise<Uint8Array> {
+  const response = await fetch(path);
+  if (!response.ok) {
+    throw new MissingArtifactError(path, `HTTP ${response.status}`);
+  }
+  if ((response.headers.get('content-type') ?? '').includes('text/html')) {
+    throw new MissingArtifactError(path, 'server returned an HTML page');
+  }
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+function loaded(mission: string): LoadedMission {
+  const entry = missions.get(mission);
+  if (!entry) {
+    throw new Error(`${mission.toUpperCase()} ONNX model is not loaded`);
+  }
+  return entry;
+}
+
+// Chunked run with progress; resolves to null when cancelled between chunks
+async function runBatch(request: PredictBatchRequest): Promise<PredictionOutput[] | null> {
+  const mission = loaded(request.mission);
+  const results: PredictionOutput[] = [];
+
+  for (let start = 0; start < request.rows; start += request.batchSize) {
+    // Let queued cancel messages through before the next chunk
+    await new Promise(resolve => setTimeout(resolve, 0));
+    if (cancelled.has(request.id)) return null;
+
+    const rows = Math.min(request.batchSize, request.rows - start);
+    const chunk = request.data.subarray(start * mission.featureCount, (start + rows) * mission.featureCount);
+    results.push(...await run(mission, chunk, rows));
+    post({ type: 'progress', id: request.id, done: start + rows, total: request.rows });
+  }
+  return results;
+}
+
+// Run scaler + classifier over `rowCount` stacked feature rows in one tensor
+async function run(mission: LoadedMission, data: Float32Array, rowCount: number): Promise<PredictionOutput[]> {
+  const { model: modelTensors, scaler: scalerTensors } = mission.manifest;
+  const inputTensor = new ort.Tensor('float32', data, [rowCount, mission.featureCount]);
+
+  const scaledResult = await mission.scaler.run({ [scalerTensors.input]: inputTensor });
+  const scaledTensor = scaledResult[scalerTensors.output];
+
+  // Names were checked at load time; ZipMap outputs were already decoded to a tensor
+  const prediction = await mission.model.run({ [modelTensors.input]: scaledTensor });
+  const classProbs = prediction[modelTensors.outputs.probabilities];
+  if (!classProbs || !classProbs.data) {
+    throw new Error('Model returned no probability tensor');
+  }
+
+  const flat = Array.from(classProbs.data as Float32Array);
+  const classCount = flat.length / rowCount;
+  const results: PredictionOutput[] = [];
+
+  for (let row = 0; row < rowCount; row++) {
+    const probabilities = flat.slice(row * classCount, (row + 1) * classCount);
+    const classIndex = probabilities.indexOf(Math.max(...probabilities));
+    results.push({
+      classIndex,
+      probabilities,
+      confidence: probabilities[classIndex] * 100,
+      source: 'onnx'
+    });
+  }
+
+  return results;
+}
+
+function errorMessage(requestType: WorkerRequest['type'], error: unknown): string {
+  if (error instanceof MissingArtifactError || error instanceof IncompatibleArtifactError) {
+    return error.message;
+  }
+  const detail = error instanceof Error ? error.message : String(error);
+  return requestType === 'load' ? `ONNX model could not be loaded: ${detail}` : `ONNX inference failed: ${detail}`;
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { detrend, LightCurve, searchTransits, transitParameters } from './lightcurve';
+
+// A TESS-sector-like light curve: 27 days of 10-minute cadence, 300 ppm Gaussian noise
+// (fixed seed), a slow stellar trend and a 2000 ppm, 3-hour box transit every 3.7 days
+const PERIOD = 3.7;
+const EPOCH = 1.3;
+const DURATION = 3 / 24;
+const DEPTH = 2000e-6;
+
+function inTransit(t: number): boolean {
+  const cycles = (t - 1000 - EPOCH) / PERIOD;
+  return Math.abs(cycles - Math.round(cycles)) * PERIOD < DURATION / 2;
+}
+
+function syntheticLightCurve(days = 27): LightCurve {
+  let seed = 2024;
+  const uniform = () => (seed = (seed * 1664525 + 1013904223) % 4294967296) / 4294967296;
+  const noise = () => Math.sqrt(-2 * Math.log(uniform() + 1e-12)) * Math.cos(2 * Math.PI * uniform()) * 300e-6;
+
+  const time = Float64Array.from({ length: days * 144 }, (_, i) => 1000 + i / 144);
+  const flux = time.map(t => (1 + 0.002 * Math.sin(t / 5)) * (1 - (inTransit(t) ? DEPTH : 0) + noise()));
+  return { time, flux, fluxErr: new Float64Array(time.length).fill(300e-6), timeReference: null, source: 'synthetic' };
+}
+
+const options = { minPeriod: 1, maxPeriod: 10, durations: [2, 3, 4].map(hours => hours / 24) };
+
+describe('detrend', () => {
+  it('flattens the stellar trend to a unit baseline', () => {
+    const { time, flux } = detrend(syntheticLightCurve());
+    const outside = Array.from(flux).filter((_, i) => !inTransit(time[i]));
+    const mean = outside.reduce((a, b) => a + b, 0) / outside.length;
+    const std = Math.sqrt(outside.reduce((a, b) => a + (b - mean) ** 2, 0) / outside.length);
+
+    // Left with the white noise, not the 4000 ppm peak-to-peak trend
+    expect(mean).toBeCloseTo(1, 4);
+    expect(std).toBeLessThan(350e-6);
+  });
+});
+
+describe('searchTransits', () => {
+  it('recovers the period, epoch, duration and depth of a synthetic transit', () => {
+    const progress: number[] = [];
+    const search = searchTransits(detrend(syntheticLightCurve()), options, fraction => progress.push(fraction));
+
+    expect(search.period).toBeCloseTo(PERIOD, 2);
+    expect(search.epoch).toBeCloseTo(1000 + EPOCH, 1);
+    expect(search.duration * 24).toBeCloseTo(3, 0);
+    expect(search.depth / DEPTH).toBeGreaterThan(0.85);
+    expect(search.depth / DEPTH).toBeLessThan(1.15);
+    expect(search.transits).toBe(7);
+    expect(search.snr).toBeGreaterThan(20);
+    expect(search.sde).toBeGreaterThan(7);
+    expect(search.periods).toHaveLength(search.power.length);
+    expect(progress[progress.length - 1]).toBe(1);
+
+    expect(transitParameters(search)).toMatchObject({ duration: expect.closeTo(3, 0), snr: +search.snr.toFixed(1) });
+  });
+
+  it('refuses light curves too short for two transits', () => {
+    expect(() => searchTransits(detrend(syntheticLightCurve(1)), options)).toThrow(/too short to see two transits/);
+  });
+});
@@ -0,0 +1,557 @@
+import { parseCatalog } from './batch';
+
+// Transit search on a raw light curve: parse a time/flux/flux_err CSV or a FITS binary
+// table (Kepler/K2/TESS LC files), normalize and detrend it with a running median, then
+// run a Box Least Squares search (Kovács, Zucker & Mazeh 2002) for the strongest
+// periodic box-shaped dip in transit-search.worker.ts. The estimates prefill the mission form.
+
+export interface LightCurve {
+  time: Float64Array; // days
+  flux: Float64Array; // relative flux, 1 out of transit after detrending
+  fluxErr: Float64Array;
+  timeReference: number | null; // add to `time` for BJD (FITS BJDREFI + BJDREFF)
+  source: string;
+}
+
+export interface TransitSearch {
+  lightCurve: LightCurve; // detrended, as searched
+  periods: Float64Array;
+  power: Float64Array; // BLS signal residue per trial period
+  period: number; // days
+  epoch: number; // mid-transit time of the first transit, in `time` units
+  duration: number; // days
+  depth: number; // relative flux
+  snr: number;
+  sde: number; // signal detection efficiency of the peak
+  transits: number; // transits with in-transit data
+  coarse: boolean; // trial grid was thinned to stay responsive
+}
+
+export interface TransitSearchOptions {
+  minPeriod?: number;
+  maxPeriod?: number;
+  durations?: number[]; // trial durations in days
+}
+
+// Trial durations from 1 h to 12 h
+const DURATIONS = [1, 1.5, 2, 2.5, 3, 4, 5, 6, 8, 10, 12].map(hours => hours / 24);
+const MIN_PERIOD = 0.3;
+const MAX_PERIOD = 100;
+const MAX_DUTY_CYCLE = 0.15;
+const MAX_PERIODS = 60000;
+const MAX_POINTS = 20000;
+const MAX_PHASE_BINS = 1500;
+// Shortest cadence searched: 2-minute data is binned to this before the search
+const MIN_BIN_DAYS = 10 / (24 * 60);
+const DETREND_WINDOW = 1.5; // days, wider than the longest trial duration
+const CLIP_SIGMA = 5;
+// Milliseconds between progress reports from the search loop
+const PROGRESS_INTERVAL = 100;
+
+const TIME_COLUMNS = ['time', 'bjd', 'btjd', 'bkjd', 'jd', 't'];
+const FLUX_COLUMNS = ['pdcsap_flux', 'flux', 'sap_flux', 'flux_norm', 'norm_flux', 'f'];
+const ERROR_COLUMNS = ['pdcsap_flux_err', 'flux_err', 'sap_flux_err', 'flux_error', 'err', 'error', 'sigma'];
+
+export async function parseLightCurve(file: File): Promise<LightCurve> {
+  const buffer = await file.arrayBuffer();
+  const head = new TextDecoder('ascii').decode(buffer.slice(0, 9));
+  const lightCurve = head === 'SIMPLE  =' ? parseFits(buffer, file.name) : parseDelimited(new TextDecoder().decode(buffer), file.name);
+
+  if (lightCurve.time.length < 100) {
+    throw new Error(`${file.name} has only ${lightCurve.time.length} usable points; a transit search needs at least 100`);
+  }
+  return lightCurve;
+}
+
+function parseDelimited(text: string, source: string): LightCurve {
+  const table = parseCatalog(text);
+  const find = (names: string[]) => names
+    .map(name => table.columns.find(column => column.toLowerCase() === name))
+    .find((column): column is string => column !== undefined);
+
+  const timeColumn = find(TIME_COLUMNS);
+  const fluxColumn = find(FLUX_COLUMNS);
+  const errorColumn = find(ERROR_COLUMNS);
+  if (!timeColumn || !fluxColumn) {
+    throw new Error(`${source} needs a time and a flux column (found: ${table.columns.join(', ')})`);
+  }
+
+  return cleanLightCurve(
+    table.rows.map(row => Number(row[timeColumn] || NaN)),
+    table.rows.map(row => Number(row[fluxColumn] || NaN)),
+    errorColumn ? table.rows.map(row => Number(row[errorColumn] || NaN)) : null,
+    null,
+    null,
+    source
+  );
+}
+
+// Minimal FITS reader: the first BINTABLE extension with a TIME and a flux column
+function parseFits(buffer: ArrayBuffer, source: string): LightCurve {
+  const BLOCK = 2880;
+  const view = new DataView(buffer);
+  let offset = 0;
+
+  while (offset < buffer.byteLength) {
+    const { cards, dataStart } = readFitsHeader(buffer, offset);
+    const rowBytes = Number(cards.NAXIS1 ?? 0);
+    const rows = Number(cards.NAXIS2 ?? 0);
+    const dataBytes = cards.XTENSION
+      ? rowBytes * rows + Number(cards.PCOUNT ?? 0)
+      : Number(cards.NAXIS ?? 0) === 0 ? 0 : Math.abs(Number(cards.BITPIX)) / 8 * fitsAxesProduct(cards);
+
+    if (String(cards.XTENSION ?? '').trim() === 'BINTABLE') {
+      const columns = fitsColumns(cards);
+      const pick = (names: string[]) => names.map(name => columns.find(c => c.name.toLowerCase() === name)).find(c => c !== undefined);
+      const time = pick(TIME_COLUMNS);
+      const flux = pick(FLUX_COLUMNS);
+      if (time && flux) {
+        const error = pick(ERROR_COLUMNS);
+        const quality = columns.find(c => c.name === 'QUALITY');
+        const read = (column: FitsColumn) => Array.from({ length: rows }, (_, r) => column.read(view, dataStart + r * rowBytes));
+
+        const reference = cards.BJDREFI !== undefined
+          ? Number(cards.BJDREFI) + Number(cards.BJDREFF ?? 0)
+          : cards.BJDREF !== undefined ? Number(cards.BJDREF) : null;
+        return cleanLightCurve(read(time), read(flux), error ? read(error) : null, quality ? read(quality) : null, reference, source);
+      }
+    }
+
+    offset = dataStart + Math.ceil(dataBytes / BLOCK) * BLOCK;
+  }
+
+  throw new Error(`${source} has no binary table with TIME and flux columns`);
+}
+
+type FitsCards = { [key: string]: string | number | boolean };
+
+function readFitsHeader(buffer: ArrayBuffer, start: number): { cards: FitsCards; dataStart: number } {
+  const BLOCK = 2880;
+  const decoder = new TextDecoder('ascii');
+  const cards: FitsCards = {};
+
+  for (let block = start; block + BLOCK <= buffer.byteLength; block += BLOCK) {
+    const text = decoder.decode(buffer.slice(block, block + BLOCK));
+    for (let c = 0; c < BLOCK; c += 80) {
+      const card = text.slice(c, c + 80);
+      const key = card.slice(0, 8).trim();
+      if (key === 'END') return { cards, dataStart: block + BLOCK };
+      if (card.slice(8, 10) !== '= ') continue;
+
+      const raw = card.slice(10);
+      const quoted = /^\s*'((?:[^']|'')*)'/.exec(raw);
+      if (quoted) {
+        cards[key] = quoted[1].replace(/''/g, "'").trimEnd();
+      } else {
+        const value = raw.split('/')[0].trim();
+        cards[key] = value === 'T' ? true : value === 'F' ? false : Number(value);
+      }
+    }
+  }
+  throw new Error('FITS header has no END card');
+}
+
+function fitsAxesProduct(cards: FitsCards): number {
+  let product = 1;
+  for (let axis = 1; axis <= Number(cards.NAXIS); axis++) product *= Number(cards[`NAXIS${axis}`]);
+  return product;
+}
+
+interface FitsColumn {
+  name: string;
+  read: (view: DataView, rowStart: number) => number;
+}
+
+// Scalar numeric columns only; FITS data is big-endian
+function fitsColumns(cards: FitsCards): FitsColumn[] {
+  const sizes: { [code: string]: number } = { L: 1, X: 1, B: 1, I: 2, J: 4, K: 8, A: 1, E: 4, D: 8, C: 8, M: 16, P: 8, Q: 16 };
+  const columns: FitsColumn[] = [];
+  let position = 0;
+
+  for (let n = 1; n <= Number(cards.TFIELDS ?? 0); n++) {
+    const format = /^\s*(\d*)([A-Z])/.exec(String(cards[`TFORM${n}`] ?? ''));
+    if (!format) throw new Error(`Unsupported FITS column format ${cards[`TFORM${n}`]}`);
+    const repeat = format[1] === '' ? 1 : Number(format[1]);
+    const code = format[2];
+    const width = code === 'X' ? Math.ceil(repeat / 8) : repeat * sizes[code];
+
+    const at = position;
+    const scale = Number(cards[`TSCAL${n}`] ?? 1);
+    const zero = Number(cards[`TZERO${n}`] ?? 0);
+    const nullValue = cards[`TNULL${n}`];
+    const readers: { [code: string]: (view: DataView, index: number) => number } = {
+      B: (view, index) => view.getUint8(index),
+      I: (view, index) => view.getInt16(index),
+      J: (view, index) => view.getInt32(index),
+      K: (view, index) => Number(view.getBigInt64(index)),
+      E: (view, index) => view.getFloat32(index),
+      D: (view, index) => view.getFloat64(index)
+    };
+    const reader = readers[code];
+    if (reader && repeat === 1) {
+      columns.push({
+        name: String(cards[`TTYPE${n}`] ?? `COL${n}`).trim(),
+        read: (view, rowStart) => {
+          const raw = reader(view, rowStart + at);
+          return nullValue !== undefined && raw === Number(nullValue) ? NaN : raw * scale + zero;
+        }
+      });
+    }
+    position += width;
+  }
+  return columns;
+}
+
+// Drop flagged and non-finite points, sort by time and normalize to the median flux
+function cleanLightCurve(
+  time: number[],
+  flux: number[],
+  fluxErr: number[] | null,
+  quality: number[] | null,
+  timeReference: number | null,
+  source: string
+): LightCurve {
+  const keep = time
+    .map((_, i) => i)
+    .filter(i => Number.isFinite(time[i]) && Number.isFinite(flux[i]) && (!quality || quality[i] === 0))
+    .sort((a, b) => time[a] - time[b]);
+
+  const median = medianOf(keep.map(i => flux[i]));
+  if (!(median !== 0 && Number.isFinite(median))) {
+    throw new Error(`${source} has no usable flux values`);
+  }
+
+  const relative = keep.map(i => flux[i] / median);
+  const scatter = robustSigma(relative);
+  return {
+    time: Float64Array.from(keep.map(i => time[i])),
+    flux: Float64Array.from(relative),
+    fluxErr: Float64Array.from(keep.map(i => {
+      const error = fluxErr ? Math.abs(fluxErr[i] / median) : NaN;
+      return Number.isFinite(error) && error > 0 ? error : scatter;
+    })),
+    timeReference,
+    source
+  };
+}
+
+// Divide out a running median evaluated on a grid of knots and interpolated between them,
+// then clip upward outliers (flares, cosmic rays) that no transit can produce
+export function detrend(lc: LightCurve, window = DETREND_WINDOW): LightCurve {
+  const { time, flux } = lc;
+  const step = window / 4;
+  const knots: { t: number; level: number }[] = [];
+
+  let lo = 0;
+  let hi = 0;
+  for (let t = time[0]; t <= time[time.length - 1] + step; t += step) {
+    while (lo < time.length && time[lo] < t - window / 2) lo++;
+    while (hi < time.length && time[hi] <= t + window / 2) hi++;
+    if (hi - lo >= 10) knots.push({ t, level: medianOf(Array.from(flux.subarray(lo, hi))) });
+  }
+  if (knots.length === 0) return lc;
+
+  const trend = new Float64Array(time.length);
+  let k = 0;
+  for (let i = 0; i < time.length; i++) {
+    while (k < knots.length - 2 && knots[k + 1].t < time[i]) k++;
+    const a = knots[k];
+    const b = knots[Math.min(k + 1, knots.length - 1)];
+    const f = b.t === a.t ? 0 : Math.min(1, Math.max(0, (time[i] - a.t) / (b.t - a.t)));
+    trend[i] = a.level + (b.level - a.level) * f;
+  }
+
+  const residual = Array.from(flux, (value, i) => value / trend[i]);
+  const limit = 1 + CLIP_SIGMA * robustSigma(residual);
+  const keep = residual.map((_, i) => i).filter(i => residual[i] <= limit);
+
+  return {
+    ...lc,
+    time: Float64Array.from(keep.map(i => time[i])),
+    flux: Float64Array.from(keep.map(i => residual[i])),
+    fluxErr: Float64Array.from(keep.map(i => lc.fluxErr[i] / trend[i]))
+  };
+}
+
+// Inverse-variance weighted time bins, so the search cost does not grow with the cadence
+function binLightCurve(lc: LightCurve, width: number): LightCurve {
+  const time: number[] = [];
+  const flux: number[] = [];
+  const fluxErr: number[] = [];
+
+  let i = 0;
+  while (i < lc.time.length) {
+    const end = lc.time[i] + width;
+    let weight = 0;
+    let weightedTime = 0;
+    let weightedFlux = 0;
+    for (; i < lc.time.length && lc.time[i] < end; i++) {
+      const w = 1 / lc.fluxErr[i] ** 2;
+      weight += w;
+      weightedTime += w * lc.time[i];
+      weightedFlux += w * lc.flux[i];
+    }
+    time.push(weightedTime / weight);
+    flux.push(weightedFlux / weight);
+    fluxErr.push(1 / Math.sqrt(weight));
+  }
+
+  return { ...lc, time: Float64Array.from(time), flux: Float64Array.from(flux), fluxErr: Float64Array.from(fluxErr) };
+}
+
+// Messages between searchTransitsInWorker and transit-search.worker.ts
+export interface TransitSearchRequest {
+  lightCurve: LightCurve;
+  options: TransitSearchOptions;
+}
+
+export type TransitSearchResponse =
+  | { type: 'progress'; fraction: number }
+  | { type: 'result'; search: TransitSearch }
+  | { type: 'error'; message: string };
+
+// Run the search off the main thread; a fresh worker per search, closed when it settles
+export function searchTransitsInWorker(
+  detrended: LightCurve,
+  options: TransitSearchOptions = {},
+  onProgress: (fraction: number) => void = () => {}
+): Promise<TransitSearch> {
+  const worker = new Worker(new URL('./transit-search.worker.ts', import.meta.url), { type: 'module' });
+  return new Promise<TransitSearch>((resolve, reject) => {
+    worker.onmessage = (event: MessageEvent<TransitSearchResponse>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress(message.fraction);
+      } else if (message.type === 'result') {
+        resolve(message.search);
+      } else {
+        reject(new Error(message.message));
+      }
+    };
+    worker.onerror = event => reject(new Error(`Transit search worker crashed: ${event.message}`));
+    worker.postMessage({ lightCurve: detrended, options } satisfies TransitSearchRequest);
+  }).finally(() => worker.terminate());
+}
+
+// The BLS search itself; blocking, so the page runs it through searchTransitsInWorker
+export function searchTransits(
+  detrended: LightCurve,
+  options: TransitSearchOptions = {},
+  onProgress: (fraction: number) => void = () => {}
+): TransitSearch {
+  const durations = options.durations ?? DURATIONS;
+  const minDuration = Math.min(...durations);
+  const span = detrended.time[detrended.time.length - 1] - detrended.time[0];
+
+  const binWidth = Math.max(MIN_BIN_DAYS, span / MAX_POINTS);
+  const lc = binLightCurve(detrended, binWidth);
+  const { time, flux, fluxErr } = lc;
+  const n = time.length;
+
+  // Normalized weights and weighted-mean-subtracted flux, so sum(w) = 1 and sum(w y) = 0
+  const weights = Float64Array.from(fluxErr, error => 1 / error ** 2);
+  const totalWeight = weights.reduce((a, b) => a + b, 0);
+  let mean = 0;
+  for (let i = 0; i < n; i++) {
+    weights[i] /= totalWeight;
+    mean += weights[i] * flux[i];
+  }
+  const weightedFlux = Float64Array.from(flux, (value, i) => weights[i] * (value - mean));
+
+  // Uniform in frequency; the spacing keeps the transit phase drift over the baseline below a duration
+  const minPeriod = Math.max(options.minPeriod ?? MIN_PERIOD, minDuration / MAX_DUTY_CYCLE);
+  const maxPeriod = Math.min(options.maxPeriod ?? MAX_PERIOD, span / 2);
+  if (!(maxPeriod > minPeriod)) {
+    throw new Error(`The light curve spans ${span.toFixed(1)} days, too short to see two transits of a ${minPeriod.toFixed(1)}-day orbit`);
+  }
+  const minFrequency = 1 / maxPeriod;
+  const maxFrequency = 1 / minPeriod;
+  const idealStep = minDuration / span ** 2;
+  const count = Math.min(MAX_PERIODS, Math.ceil((maxFrequency - minFrequency) / idealStep) + 1);
+  const frequencyStep = (maxFrequency - minFrequency) / (count - 1);
+
+  const periods = new Float64Array(count);
+  const power = new Float64Array(count);
+  const binWeight = new Float64Array(MAX_PHASE_BINS);
+  const binFlux = new Float64Array(MAX_PHASE_BINS);
+  const t0 = time[0];
+  let best = { power: -1, period: 0, phase: 0, duration: 0, depth: 0 };
+  let lastProgress = performance.now();
+
+  for (let p = 0; p < count; p++) {
+    const period = 1 / (maxFrequency - p * frequencyStep);
+    periods[p] = period;
+
+    const bins = Math.min(MAX_PHASE_BINS, Math.ceil(period / (minDuration / 3)));
+    const binSpan = period / bins;
+    binWeight.fill(0, 0, bins);
+    binFlux.fill(0, 0, bins);
+    for (let i = 0; i < n; i++) {
+      const phase = (time[i] - t0) / period;
+      const bin = Math.min(bins - 1, Math.floor((phase - Math.floor(phase)) * bins));
+      binWeight[bin] += weights[i];
+      binFlux[bin] += weightedFlux[i];
+    }
+
+    let periodBest = 0;
+    for (const duration of durations) {
+      if (duration > MAX_DUTY_CYCLE * period) continue;
+      const width = Math.max(1, Math.round(duration / binSpan));
+
+      let r = 0;
+      let s = 0;
+      for (let b = 0; b < width; b++) {
+        r += binWeight[b];
+        s += binFlux[b];
+      }
+      for (let start = 0; start < bins; start++) {
+        // Only dips: the in-transit mean must sit below the weighted mean
+        if (s < 0 && r > 0 && r < 1) {
+          const residue = s * s / (r * (1 - r));
+          if (residue > periodBest) periodBest = residue;
+          if (residue > best.power) {
+            best = { power: residue, period, phase: (start + width / 2) / bins, duration: width * binSpan, depth: -s / (r * (1 - r)) };
+          }
+        }
+        const leaving = start;
+        const entering = (start + width) % bins;
+        r += binWeight[entering] - binWeight[leaving];
+        s += binFlux[entering] - binFlux[leaving];
+      }
+    }
+    power[p] = periodBest;
+
+    if (performance.now() - lastProgress > PROGRESS_INTERVAL) {
+      lastProgress = performance.now();
+      onProgress((p + 1) / count);
+    }
+  }
+  onProgress(1);
+
+  if (best.power <= 0) {
+    throw new Error('No transit-like dip found in the light curve');
+  }
+
+  // First mid-transit at or after the start of the data
+  let epoch = t0 + best.phase * best.period;
+  epoch -= Math.floor((epoch - t0) / best.period) * best.period;
+
+  const { snr, transits } = transitStatistics(detrended, best.period, epoch, best.duration, best.depth);
+  const powerMean = power.reduce((a, b) => a + b, 0) / count;
+  const powerStd = Math.sqrt(power.reduce((a, b) => a + (b - powerMean) ** 2, 0) / count);
+
+  return {
+    lightCurve: detrended,
+    periods,
+    power,
+    period: best.period,
+    epoch,
+    duration: best.duration,
+    depth: best.depth,
+    snr,
+    sde: powerStd > 0 ? (best.power - powerMean) / powerStd : 0,
+    transits,
+    coarse: count === MAX_PERIODS || binWidth > MIN_BIN_DAYS
+  };
+}
+
+// Depth over its uncertainty from the unbinned in-transit points, and how many transits have data
+function transitStatistics(lc: LightCurve, period: number, epoch: number, duration: number, depth: number) {
+  const outside: number[] = [];
+  const epochs = new Set<number>();
+  let inside = 0;
+
+  for (let i = 0; i < lc.time.length; i++) {
+    const cycles = Math.round((lc.time[i] - epoch) / period);
+    if (Math.abs(lc.time[i] - epoch - cycles * period) < duration / 2) {
+      inside++;
+      epochs.add(cycles);
+    } else {
+      outside.push(lc.flux[i]);
+    }
+  }
+
+  const sigma = robustSigma(outside);
+  return { snr: inside > 0 && sigma > 0 ? depth / sigma * Math.sqrt(inside) : 0, transits: epochs.size };
+}
+
+function medianOf(values: number[]): number {
+  if (values.length === 0) return NaN;
+  const sorted = values.slice().sort((a, b) => a - b);
+  const middle = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// Standard deviation estimated from the median absolute deviation
+function robustSigma(values: number[]): number {
+  const median = medianOf(values);
+  return 1.4826 * medianOf(values.map(value => Math.abs(value - median)));
+}
+
+// Form values for the detected signal, in the common-parameter units of compare.ts
+export function transitParameters(search: TransitSearch): { [parameter: string]: number } {
+  return {
+    period: +search.period.toPrecision(7),
+    duration: +(search.duration * 24).toFixed(2),
+    depth: Math.round(search.depth * 1e6),
+    snr: +search.snr.toFixed(1)
+  };
+}
+
+export function renderTransitSearch(container: HTMLElement, search: TransitSearch) {
+  const width = 560;
+  const height = 160;
+  const pad = 30;
+  const logMin = Math.log10(search.periods[search.periods.length - 1]);
+  const logMax = Math.log10(search.periods[0]);
+  const peak = Math.max(...search.power);
+  const x = (period: number) => pad + (Math.log10(period) - logMin) / (logMax - logMin) * width;
+  const y = (power: number) => pad + (1 - power / peak) * height;
+
+  // Keep the highest point per pixel column so narrow peaks survive downsampling
+  const columns = new Map<number, number>();
+  search.periods.forEach((period, i) => {
+    const column = Math.round(x(period));
+    columns.set(column, Math.max(columns.get(column) ?? 0, search.power[i]));
+  });
+  const points = [...columns.entries()].sort((a, b) => a[0] - b[0]).map(([column, power]) => `${column},${y(power).toFixed(1)}`).join(' ');
+
+  const ticks = [0.5, 1, 2, 5, 10, 20, 50, 100].filter(period => period >= 10 ** logMin && period <= 10 ** logMax);
+  const reference = search.lightCurve.timeReference;
+  const rows: [string, string][] = [
+    ['Period', `${search.period.toFixed(5)} d`],
+    ['Epoch (mid-transit)', `${search.epoch.toFixed(4)}${reference !== null ? ` (BJD ${(search.epoch + reference).toFixed(4)})` : ''}`],
+    ['Duration', `${(search.duration * 24).toFixed(2)} h`],
+    ['Depth', `${Math.round(search.depth * 1e6)} ppm`],
+    ['Signal to noise', search.snr.toFixed(1)],
+    ['SDE', search.sde.toFixed(1)],
+    ['Transits observed', String(search.transits)]
+  ];
+
+  container.innerHTML = `
+    <svg class="roc-chart periodogram-chart" viewBox="0 0 ${width + pad * 2} ${height + pad * 2}" role="img" aria-label="BLS periodogram">
+      <rect x="${pad}" y="${pad}" width="${width}" height="${height}" fill="none" stroke="rgba(255,255,255,0.3)"/>
+      ${ticks.map(period => `
+        <line x1="${x(period)}" y1="${pad + height}" x2="${x(period)}" y2="${pad + height + 4}" stroke="rgba(255,255,255,0.5)"/>
+        <text x="${x(period)}" y="${pad + height + 15}" text-anchor="middle">${period}</text>
+      `).join('')}
+      <polyline fill="none" stroke="#00c9ff" stroke-width="1" points="${points}"/>
+      <line x1="${x(search.period)}" y1="${pad}" x2="${x(search.period)}" y2="${pad + height}" stroke="#ff4d6d" stroke-dasharray="4 4">
+        <title>Best period ${search.period.toFixed(5)} d</title>
+      </line>
+      <text x="${pad + width / 2}" y="${height + pad * 2 - 2}" text-anchor="middle">Trial period (days)</text>
+      <text x="10" y="${pad + height / 2}" text-anchor="middle" transform="rotate(-90 10 ${pad + height / 2})">BLS power</text>
+    </svg>
+    <table class="batch-table">
+      <tbody>
+        ${rows.map(([label, value]) => `<tr><td>${label}</td><td><strong>${value}</strong></td></tr>`).join('')}
+      </tbody>
+    </table>
+    <div class="explanation-note">
+      ${search.lightCurve.time.length} points after detrending, ${search.periods.length} trial periods.
+      ${search.sde < 7 ? '⚠️ SDE below 7: the peak is not clearly above the noise.' : ''}
+      ${search.transits < 3 ? '⚠️ Fewer than three transits observed.' : ''}
+      ${search.coarse ? 'The search grid was thinned for this long or dense light curve; upload a shorter span for finer period resolution.' : ''}
+    </div>
+  `;
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { parseCatalog } from './batch';
+import { indexCatalog, numberKey, searchCatalog } from './lookup';
+
+const koi = indexCatalog(parseCatalog([
+  'kepid,kepoi_name,kepler_name,koi_period',
+  '10797460,K00752.01,Kepler-227 b,9.488',
+  '10797460,K00752.02,Kepler-227 c,54.418',
+  '10854555,K00755.01,Kepler-664 b,2.526',
+  '10872983,K00756.01,Kepler-228 d,11.094'
+].join('\n')));
+
+const toi = indexCatalog(parseCatalog([
+  'toi,tid,pl_orbper',
+  '1000.01,50365310,2.171',
+  '1000.02,50365310,5.912',
+  '1001.01,88863718,1.932',
+  '100.01,231663901,1.430'
+].join('\n')));
+
+const labels = (query: string, entries = koi) => searchCatalog(entries, query).map(match => match.identifier.label);
+
+describe('numberKey', () => {
+  it('strips leading zeros and pads planet suffixes to two digits', () => {
+    expect(numberKey('K00752.01')).toBe('752.01');
+    expect(numberKey('752.1')).toBe('752.01');
+    expect(numberKey('0010797460')).toBe('10797460');
+    expect(numberKey('0')).toBe('0');
+    expect(numberKey('none')).toBe('');
+  });
+});
+
+describe('searchCatalog', () => {
+  it('matches prefixed identifiers exactly, whatever the separator', () => {
+    expect(labels('KOI-752.01')).toEqual(['K00752.01']);
+    expect(labels('k00752.1')).toEqual(['K00752.01']);
+    expect(labels('kic 10854555')).toEqual(['KIC 10854555']);
+    expect(labels('TIC 88863718', toi)).toEqual(['TIC 88863718']);
+  });
+
+  it('finds every planet of a system from its number', () => {
+    expect(labels('TOI-1000', toi)).toEqual(['TOI-1000.01', 'TOI-1000.02']);
+    expect(labels('koi 752')).toEqual(['K00752.01', 'K00752.02']);
+  });
+
+  it('does not treat a shorter number as a prefix of a longer one', () => {
+    expect(labels('TOI-100', toi)).toEqual(['TOI-100.01']);
+  });
+
+  it('tolerates typos in planet names only when nothing matches closer', () => {
+    expect(labels('Kepler-227 b')).toEqual(['Kepler-227 b']);
+    expect(labels('Keplr-664b')).toEqual(['Kepler-664 b']);
+    expect(labels('Kepler-22')).toEqual(['Kepler-227 b', 'Kepler-227 c', 'Kepler-228 d']);
+  });
+
+  it('returns nothing for blank or unrelated queries', () => {
+    expect(searchCatalog(koi, '   ')).toEqual([]);
+    expect(searchCatalog(koi, 'TRAPPIST-1 e')).toEqual([]);
+  });
+
+  it('caps the number of results', () => {
+    expect(searchCatalog(koi, 'Kepler', 2)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,376 @@
+import { catalogRowValues, CatalogTable, parseCatalog } from './batch';
+import { FeatureSchema, FeatureValues, resolveColumn } from './features';
+import { escapeHtml } from './html';
+import { manifestUrl, MissionForm, ModelManifest } from './manifest';
+
+// Target lookup by archive identifier (TOI, TIC, KOI, KIC, EPIC or planet name) in a
+// catalog snapshot: the mission's bundled table (manifest `catalog`) or an archive
+// CSV/TSV the user picks. Matching is exact, then by prefix (TOI-1000 finds 1000.01),
+// then by edit distance, so small typos still find the row.
+
+export type IdentifierKind = 'TOI' | 'TIC' | 'KOI' | 'KIC' | 'EPIC' | 'Name';
+
+export interface TargetIdentifier {
+  kind: IdentifierKind;
+  label: string; // as displayed, e.g. TOI-1000.01
+  key: string; // normalized for matching
+}
+
+export interface CatalogEntry {
+  identifiers: TargetIdentifier[];
+  row: { [column: string]: string };
+}
+
+export interface LookupMatch {
+  entry: CatalogEntry;
+  identifier: TargetIdentifier;
+  score: number; // 0 exact, 1 prefix, 2+ edit distance
+}
+
+// Form values filled from a catalog row
+export interface ImportedTarget {
+  label: string;
+  source: string;
+  values: FeatureValues; // every numeric column of the row
+  form: FeatureValues; // manual-form fields
+  errors: FeatureValues; // ± per form field, from the row's error columns
+}
+
+const RESULT_LIMIT = 8;
+
+// Prefixes users type before a catalog number; 'k' is the KOI table's own K00752.01 form
+const PREFIXES: { [prefix: string]: IdentifierKind } = {
+  toi: 'TOI', tic: 'TIC', koi: 'KOI', k: 'KOI', kic: 'KIC', kepid: 'KIC', epic: 'EPIC'
+};
+
+export async function loadCatalogSnapshot(modelName: string, manifest: ModelManifest): Promise<CatalogTable> {
+  if (!manifest.catalog) {
+    throw new Error(`No catalog snapshot ships with the ${manifest.display_name} model`);
+  }
+
+  const path = manifestUrl(modelName, manifest.catalog);
+  const response = await fetch(path);
+  if (!response.ok) {
+    throw new Error(`Catalog snapshot not found at ${path} (HTTP ${response.status})`);
+  }
+  return parseCatalog(await response.text());
+}
+
+// Every identifier a row carries, across the TOI, KOI and K2 archive tables
+export function indexCatalog(table: CatalogTable): CatalogEntry[] {
+  return table.rows.map(row => {
+    const identifiers: TargetIdentifier[] = [];
+    const add = (kind: IdentifierKind, label: string, value: string) => {
+      const key = kind === 'Name' ? nameKey(value) : numberKey(value);
+      if (key) identifiers.push({ kind, label, key });
+    };
+
+    if (row.toi) {
+      add('TOI', `TOI-${row.toi}`, row.toi);
+    } else if (row.toipfx) {
+      // Training snapshot: TOI prefix plus the planet number from the CTOI alias
+      const suffix = (row.ctoi_alias ?? '').split('.')[1];
+      const toi = `${Number(row.toipfx)}${suffix ? `.${suffix}` : ''}`;
+      add('TOI', `TOI-${toi}`, toi);
+    }
+    const tic = row.tid || (row.ctoi_alias ?? '').split('.')[0];
+    if (tic) add('TIC', `TIC ${Number(tic)}`, tic);
+    if (row.kepoi_name) add('KOI', row.kepoi_name, row.kepoi_name.replace(/^K/i, ''));
+    if (row.kepid) add('KIC', `KIC ${row.kepid}`, row.kepid);
+    for (const column of ['epic_candname', 'epic_hostname']) {
+      if (row[column]) add('EPIC', row[column], row[column].replace(/^EPIC\s*/i, ''));
+    }
+    for (const column of ['kepler_name', 'pl_name', 'hostname']) {
+      if (row[column]) add('Name', row[column], row[column]);
+    }
+
+    return { identifiers, row };
+  }).filter(entry => entry.identifiers.length > 0);
+}
+
+export function searchCatalog(entries: CatalogEntry[], query: string, limit = RESULT_LIMIT): LookupMatch[] {
+  const parsed = parseQuery(query);
+  if (!parsed) return [];
+
+  const matches: LookupMatch[] = [];
+  for (const entry of entries) {
+    let best: LookupMatch | null = null;
+    for (const identifier of entry.identifiers) {
+      if (parsed.kind && identifier.kind !== parsed.kind) continue;
+      if (!parsed.kind && (identifier.kind === 'Name') !== parsed.isName) continue;
+
+      const score = matchScore(parsed.key, identifier.key, identifier.kind !== 'Name');
+      if (score !== null && (!best || score < best.score)) {
+        best = { entry, identifier, score };
+      }
+    }
+    if (best) matches.push(best);
+  }
+
+  // Typo-tolerant matches only when nothing matches exactly or by prefix
+  const close = matches.filter(match => match.score <= 1);
+  return (close.length > 0 ? close : matches)
+    .sort((a, b) => a.score - b.score || a.identifier.key.localeCompare(b.identifier.key, undefined, { numeric: true }))
+    .slice(0, limit);
+}
+
+function parseQuery(query: string): { kind: IdentifierKind | null; key: string; isName: boolean } | null {
+  const text = query.trim();
+  if (text === '') return null;
+
+  const prefixed = /^([a-z]+)[\s\-_]*(\d[\d.]*)$/i.exec(text);
+  if (prefixed && PREFIXES[prefixed[1].toLowerCase()]) {
+    return { kind: PREFIXES[prefixed[1].toLowerCase()], key: numberKey(prefixed[2]), isName: false };
+  }
+  if (/^\d[\d.]*$/.test(text)) {
+    return { kind: null, key: numberKey(text), isName: false };
+  }
+  const key = nameKey(text);
+  return key ? { kind: null, key, isName: true } : null;
+}
+
+// 0 exact, 1 prefix, 2 + distance for close misspellings; null when unrelated
+function matchScore(query: string, key: string, numeric: boolean): number | null {
+  if (key === query) return 0;
+  if (numeric ? key.startsWith(`${query}.`) : key.startsWith(query)) return 1;
+
+  const allowed = Math.max(1, Math.floor(query.length / 4));
+  if (Math.abs(key.length - query.length) > allowed) return null;
+  const distance = editDistance(query, key);
+  return distance <= allowed ? 2 + distance : null;
+}
+
+// Catalog numbers without leading zeros; planet suffixes padded to two digits (752.1 = 752.01)
+export function numberKey(value: string): string {
+  const match = /(\d+)(?:\.(\d+))?/.exec(value);
+  if (!match) return '';
+  const number = match[1].replace(/^0+(?=\d)/, '');
+  return match[2] !== undefined ? `${number}.${match[2].padStart(2, '0')}` : number;
+}
+
+function nameKey(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Form fields and their uncertainties from a catalog row, converted back to form units
+export function importTarget(schema: FeatureSchema, form: MissionForm, match: LookupMatch, source: string): ImportedTarget {
+  const values = catalogRowValues(match.entry.row);
+  const formValues: FeatureValues = {};
+  const errors: FeatureValues = {};
+
+  for (const field of form.fields) {
+    const target = resolveColumn(schema, field.name);
+    const column = target?.column ?? field.name;
+    const scale = target?.scale ?? 1;
+
+    const value = values[column];
+    if (value === null || value === undefined) continue;
+    formValues[field.name] = value / scale;
+
+    // Symmetric ± from the archive's asymmetric err1 / err2 pair
+    const spreads = [`${column}err1`, `${column}err2`, `${column}_err1`, `${column}_err2`]
+      .map(name => values[name])
+      .filter((spread): spread is number => spread !== null && spread !== undefined && spread !== 0)
+      .map(Math.abs);
+    if (spreads.length > 0) {
+      errors[field.name] = spreads.reduce((a, b) => a + b, 0) / spreads.length / scale;
+    }
+  }
+
+  return { label: match.identifier.label, source, values, form: formValues, errors };
+}
+
+// Search box, snapshot picker and preview of the selected row for one mission
+export class TargetLookup {
+  private entries: CatalogEntry[] | null = null;
+  private bundledLoad: Promise<boolean> | null = null;
+  private searchToken = 0;
+  private source = '';
+  private matches: LookupMatch[] = [];
+  private selected: LookupMatch | null = null;
+  private status = '';
+
+  constructor(
+    private container: HTMLElement,
+    private mission: string,
+    private schema: FeatureSchema,
+    private form: MissionForm,
+    private loadBundled: (() => Promise<CatalogTable>) | null,
+    private onImport: (target: ImportedTarget) => void
+  ) {
+    this.container.addEventListener('input', (e) => {
+      const target = e.target as HTMLElement;
+      if (target.id === `${this.mission}-lookup-query`) {
+        this.search((target as HTMLInputElement).value);
+      }
+    });
+
+    this.container.addEventListener('change', (e) => {
+      const target = e.target as HTMLInputElement;
+      if (target.id === `${this.mission}-lookup-file` && target.files?.[0]) {
+        this.loadFile(target.files[0]);
+      }
+    });
+
+    this.container.addEventListener('click', (e) => {
+      const target = e.target as HTMLElement;
+
+      const result = target.closest('[data-lookup-index]') as HTMLElement | null;
+      if (result) {
+        this.selected = this.matches[Number(result.dataset.lookupIndex)] ?? null;
+        this.renderResults();
+        return;
+      }
+
+      if (target.closest('[data-lookup-fill]') && this.selected) {
+        this.onImport(importTarget(this.schema, this.form, this.selected, this.source));
+      }
+    });
+  }
+
+  render() {
+    this.container.innerHTML = `
+      <div class="lookup-controls">
+        <input type="search" id="${this.mission}-lookup-query" class="lookup-query" placeholder="TOI-1000.01, KOI-752.01, EPIC 201367065, Kepler-227 b..." autocomplete="off">
+        <label class="lookup-file">
+          📂 Use archive file
+          <input type="file" id="${this.mission}-lookup-file" accept=".csv,.tsv,.txt">
+        </label>
+      </div>
+      <div class="lookup-results"></div>
+    `;
+    this.status = this.loadBundled
+      ? 'Bundled catalog snapshot'
+      : `No catalog snapshot ships with the ${this.mission.toUpperCase()} model: lookup searches only an archive CSV/TSV export you pick`;
+    this.renderResults();
+  }
+
+  // Keystrokes while the snapshot downloads share one fetch
+  private ensureEntries(): Promise<boolean> {
+    if (this.entries) return Promise.resolve(true);
+    if (!this.loadBundled) return Promise.resolve(false);
+    this.bundledLoad ??= this.loadBundledEntries(this.loadBundled);
+    return this.bundledLoad;
+  }
+
+  private async loadBundledEntries(load: () => Promise<CatalogTable>): Promise<boolean> {
+    this.status = '⏳ Loading the bundled catalog snapshot...';
+    this.renderResults();
+    try {
+      const entries = indexCatalog(await load());
+      // An archive file picked during the download takes precedence
+      if (!this.entries) {
+        this.entries = entries;
+        this.source = 'bundled catalog snapshot';
+        this.status = `Bundled snapshot: ${entries.length} targets`;
+      }
+      return true;
+    } catch (error) {
+      this.loadBundled = null;
+      this.bundledLoad = null;
+      this.status = `❌ ${error instanceof Error ? error.message : error}`;
+      this.renderResults();
+      return false;
+    }
+  }
+
+  private async loadFile(file: File) {
+    try {
+      this.entries = indexCatalog(parseCatalog(await file.text()));
+      this.source = file.name;
+      this.status = `${file.name}: ${this.entries.length} targets with an identifier`;
+    } catch (error) {
+      this.status = `❌ ${file.name}: ${error instanceof Error ? error.message : error}`;
+    }
+    const query = this.container.querySelector<HTMLInputElement>('.lookup-query')?.value ?? '';
+    this.search(query);
+  }
+
+  private async search(query: string) {
+    const token = ++this.searchToken;
+    if (query.trim() === '') {
+      this.matches = [];
+      this.selected = null;
+      this.renderResults();
+      return;
+    }
+
+    const ready = await this.ensureEntries();
+    // A later keystroke has already searched (or is waiting on the same load)
+    if (token !== this.searchToken) return;
+    if (!ready) {
+      this.matches = [];
+      this.selected = null;
+      this.renderResults();
+      return;
+    }
+
+    this.matches = searchCatalog(this.entries!, query);
+    this.selected = this.matches[0]?.score === 0 ? this.matches[0] : null;
+    this.renderResults();
+  }
+
+  private renderResults() {
+    const results = this.container.querySelector('.lookup-results');
+    if (!results) return;
+
+    const query = this.container.querySelector<HTMLInputElement>('.lookup-query')?.value.trim() ?? '';
+    results.innerHTML = `
+      <div class="explanation-note">${escapeHtml(this.status)}</div>
+      ${query && this.entries && this.matches.length === 0 ? '<div class="explanation-note">No target matches that identifier.</div>' : ''}
+      ${query && !this.entries && !this.loadBundled ? '<div class="explanation-note">⚠️ Nothing to search yet: choose an archive file to look this target up.</div>' : ''}
+      ${this.matches.length > 0 ? `
+        <div class="lookup-matches">
+          ${this.matches.map((match, index) => `
+            <button class="export-btn ${match === this.selected ? 'active' : ''}" data-lookup-index="${index}" title="${match.score === 0 ? 'Exact match' : match.score === 1 ? 'Prefix match' : 'Close match'}">
+              ${escapeHtml(match.identifier.label)}${match.identifier !== match.entry.identifiers[0] ? ` → ${escapeHtml(match.entry.identifiers[0].label)}` : ''}${match.score >= 2 ? ' ≈' : ''}
+            </button>
+          `).join('')}
+        </div>
+      ` : ''}
+      ${this.selected ? this.renderPreview(this.selected) : ''}
+    `;
+  }
+
+  private renderPreview(match: LookupMatch): string {
+    const imported = importTarget(this.schema, this.form, match, this.source);
+    const modelColumns = Object.keys(imported.values).filter(column => resolveColumn(this.schema, column) !== null);
+    const others = match.entry.identifiers.filter(id => id !== match.identifier).map(id => id.label);
+
+    return `
+      <div class="lookup-preview">
+        <h5>${escapeHtml(match.identifier.label)}${others.length ? ` <small>(${escapeHtml(others.join(', '))})</small>` : ''}</h5>
+        <table class="batch-table">
+          <tbody>
+            ${this.form.fields.map(field => {
+              const value = imported.form[field.name];
+              const error = imported.errors[field.name];
+              return `
+                <tr>
+                  <td>${escapeHtml(field.label)}</td>
+                  <td>${value === undefined || value === null ? '<em>not in catalog</em>' : `<strong>${+value.toPrecision(6)}</strong>${error ? ` ± ${+error.toPrecision(3)}` : ''}`}</td>
+                </tr>
+              `;
+            }).join('')}
+          </tbody>
+        </table>
+        <div class="explanation-note">
+          ${modelColumns.length} of ${this.schema.feature_count} model features are in this row; the rest keep their training defaults.
+        </div>
+        <button class="confusion-matrix-btn" data-lookup-fill>📥 Fill form from ${escapeHtml(match.identifier.label)}</button>
+      </div>
+    `;
+  }
+}
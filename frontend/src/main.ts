@@ -1,20 +1,34 @@
-import * as ort from 'onnxruntime-web';
-
-// Configure ONNX Runtime for web - use local files
-ort.env.wasm.numThreads = 1;
-ort.env.wasm.simd = false;
-// Don't set wasmPaths - let it use bundled files
+import { assembleFeatureVector, loadFeatureSchema, FeatureSchema, FeatureValues } from './features';
+import { benchmarkConfig, BenchmarkResult, renderBenchmark } from './benchmark';
+import { reliability, renderReliability } from './calibration';
+import { BATCH_SIZE, BatchResultsTable, BatchRow, buildBatchMatrix, catalogRowLabel, catalogRowValues, matchedColumns, parseCatalog } from './batch';
+import { COMMON_FORM, comparisonEntry, mapCommonInputs, MissionComparison, renderComparison, weightedConsensus } from './compare';
+import { ConfusionMatrixView, loadConfusionData } from './confusion';
+import { DerivedQuantity, deriveQuantities, derivedFeatureValues, physicalParameters, renderDerivedQuantities } from './derived';
+import { classColor, evaluatePredictions, loadTestSet, renderEvaluationSummary, renderRocCurves } from './evaluation';
+import { downloadRecords, ExportFormat } from './export';
+import { errorFieldId, fieldId, peekFieldErrors, peekMissionForm, readMissionForm, renderFormFields, renderMissionForm, renderPresetButtons } from './forms';
+import { MissionDiagnostics, renderDiagnostics, TensorCheck } from './diagnostics';
+import { explainPrediction, renderExplanation } from './explain';
+import { HistoryEntry, HistoryPanel, PredictionHistory } from './history';
+import { escapeHtml } from './html';
+import { detrend, parseLightCurve, renderTransitSearch, searchTransitsInWorker, transitParameters, TransitSearch } from './lightcurve';
+import { CancelledError, InferenceClient, InferenceError } from './inference-client';
+import { ImportedTarget, loadCatalogSnapshot, TargetLookup } from './lookup';
+import { classNames, manifestUrl, ModelManifest } from './manifest';
+import { checkCoverage, loadTrainingReference, renderCoverageWarning, TrainingReference } from './ood';
+import { decodePermalink, encodePermalink } from './permalink';
+import { checkPlausibility, showPlausibility } from './plausibility';
+import { loadRegistry, missionDisplayName, MissionRegistry } from './registry';
+import { benchmarkConfigs, chooseRuntimeConfig, detectCapabilities, renderRuntimeInfo } from './runtime';
+import { FoldedLightCurve, renderTransitPlot, transitGeometry } from './transitmodel';
+import { ModelMetadata, PredictionOutput, PredictionRecord } from './types';
+import { errorFeatureValues, monteCarloPrediction, renderMonteCarlo } from './uncertainty';
+import { renderVetting, vetTransit } from './vetting';
+
+// ONNX Runtime is configured (runtime.ts) and run inside inference.worker.ts
 
 // Model interfaces
-interface ModelMetadata {
-  dataset: string;
-  model_type: string;
-  f1_macro_score: number;
-  accuracy_score: number;
-  features_count: number;
-  training_samples: number;
-}
-
 interface DeploymentInfo {
   output_classes: string[];
   class_mapping: { [key: number]: string };
@@ -22,170 +36,237 @@ interface DeploymentInfo {
 }
 
 interface ModelData {
-  session: ort.InferenceSession | null;
-  scalerSession: ort.InferenceSession | null;
   metadata: ModelMetadata | null;
   deploymentInfo: DeploymentInfo | null;
-  status: 'loading' | 'ready' | 'error';
+  manifest: ModelManifest | null;
+  featureSchema: FeatureSchema | null;
+  checks: TensorCheck[]; // load-time tensor checks, see diagnostics.ts
+  notes: string[];
+  status: 'loading' | 'ready' | 'error'; // 'ready' = sessions loaded in the inference worker
   error?: string;
 }
 
+// Result card presentation, keyed by the class_mapping label
+interface ClassStyle {
+  emoji: string;
+  title: string;
+  description: string;
+  color: string;
+}
+
+const CLASS_STYLES: { [label: string]: Omit<ClassStyle, 'color'> } = {
+  Candidate: { emoji: '🔍', title: 'Candidate Exoplanet', description: 'Requires further observation and verification' },
+  Confirmed: { emoji: '✅', title: 'Confirmed Exoplanet', description: 'High confidence exoplanet detection' },
+  False_Positive: {
+    emoji: '❌',
+    title: 'False Positive',
+    description: 'Likely an eclipsing binary, stellar activity or instrumental noise; see the vetting diagnostics'
+  }
+};
 
+// Labels a manifest introduces without a style entry get a neutral one
+function classStyle(label: string, index: number): ClassStyle {
+  const style = CLASS_STYLES[label] ?? { emoji: '🔮', title: label.replace(/_/g, ' '), description: '' };
+  return { ...style, color: classColor(label, index) };
+}
 
 class ExoplanetClassifier {
-  private models: { [key: string]: ModelData } = {
-    k2: { session: null, scalerSession: null, metadata: null, deploymentInfo: null, status: 'loading' },
-    kepler: { session: null, scalerSession: null, metadata: null, deploymentInfo: null, status: 'loading' },
-    tess: { session: null, scalerSession: null, metadata: null, deploymentInfo: null, status: 'loading' }
-  };
+  // Filled from the mission registry (/models/index.json) at startup
+  private models: { [key: string]: ModelData } = {};
+
+  private currentModel: string = '';
+  private defaultMission: string = ''; // shown when navigation returns to a URL without a permalink
+
+  // Threads/SIMD picked from what this browser supports
+  private capabilities = detectCapabilities();
+  private runtimeConfig = chooseRuntimeConfig(this.capabilities);
+
+  // Scaler and classifier sessions live in a Web Worker
+  private inference = new InferenceClient(this.runtimeConfig);
+  private activeBatchId: number | null = null;
+
+  // Bumped per manual prediction so a slow explanation never overwrites a newer result
+  private explanationToken = 0;
+  private uncertaintyToken = 0;
+  private coverageToken = 0;
+
+  // Latest results kept for export
+  private lastRecord: PredictionRecord | null = null;
+  private batchRecords: PredictionRecord[] = [];
+
+  // Opt-in simulated output for when a model's ONNX files are unavailable
+  private demoMode: boolean = false;
+
+  // Sample manual inputs within their ± uncertainties after each prediction
+  private monteCarloMode = false;
 
-  private currentModel: string = 'tess';
+  // Catalog row the manual form was filled from; its other columns feed the model too
+  private importedTarget: (ImportedTarget & { mission: string }) | null = null;
 
+  // Manual predictions persisted in IndexedDB; null when the browser has no IndexedDB
+  private history: PredictionHistory | null = null;
+  private historyPanel: HistoryPanel | null = null;
+
+  // Latest BLS detection from an uploaded light curve, for filling the manual form
+  private lastTransitSearch: TransitSearch | null = null;
+  // The detection whose parameters are in the form; its folded light curve feeds the transit
+  // plot and vetting until the form is filled from anywhere else
+  private formTransitSearch: TransitSearch | null = null;
+
+  // Training feature tables for the out-of-distribution check, loaded on first use per mission
+  private trainingReferences: { [mission: string]: Promise<TrainingReference> } = {};
+  private transitSearchRunning = false;
+
+  // Constructed by initApp once the document is parsed
   constructor() {
     console.log('ExoplanetClassifier constructor called');
-    
-    // If DOM is already loaded, initialize immediately
-    if (document.readyState === 'complete' || document.readyState === 'interactive') {
-      console.log('DOM already ready, initializing...');
-      this.init();
-    } else {
-      // Wait for DOM to be ready
-      console.log('Waiting for DOM to be ready...');
-      document.addEventListener('DOMContentLoaded', () => {
-        console.log('DOMContentLoaded event fired');
-        this.init();
-      });
-    }
+    this.init();
   }
 
   private async init() {
     console.log('Initializing ExoplanetClassifier...');
     console.log('Document ready state:', document.readyState);
-    
+
+    try {
+      const registry = await loadRegistry();
+      this.registerMissions(registry);
+    } catch (error) {
+      console.error('❌ Mission registry could not be loaded:', error);
+      const group = document.querySelector('.model-select-group');
+      if (group) {
+        group.textContent = `❌ ${error instanceof Error ? error.message : 'Mission registry could not be loaded'}`;
+      }
+      return;
+    }
+
+    this.updateModelStatuses();
+
     // Load all models in parallel
     const loadPromises = Object.keys(this.models).map(modelName => 
       this.loadModel(modelName)
     );
     
     await Promise.allSettled(loadPromises);
+    this.updateModelStatuses();
+    this.renderCompareForm();
+    this.updateDiagnostics();
+    this.updateRuntimeInfo();
+    this.initHistory();
     console.log('Models loaded, setting up event listeners...');
     
-    // Multiple attempts to ensure DOM is ready
-    let attempts = 0;
-    const maxAttempts = 20;
-    
-    const setupWithRetry = () => {
-      attempts++;
-      console.log(`Setup attempt ${attempts}/${maxAttempts}`);
-      
-      const modelOptions = document.querySelectorAll('.model-option');
-      const autoFillButtons = document.querySelectorAll('.auto-fill-btn');
-      const manualPredictBtn = document.getElementById('manual-predict');
-      
-      console.log('Model options found:', modelOptions.length);
-      console.log('Auto-fill buttons found:', autoFillButtons.length);
-      console.log('Manual predict button found:', !!manualPredictBtn);
-      
-      if (modelOptions.length >= 3 && autoFillButtons.length > 0 && manualPredictBtn) {
-        console.log('✅ All required elements found, setting up listeners...');
-        this.setupEventListeners();
-        this.setupScrollHeader();
-        this.updateModelInfo('tess'); // Default to TESS
-        console.log('✅ Initialization complete');
-        
-        // Test model buttons immediately
-        this.testModelButtons();
-        return true;
-      } else if (attempts < maxAttempts) {
-        console.log(`❌ Missing elements, retrying in ${attempts * 100}ms...`);
-        setTimeout(setupWithRetry, attempts * 100);
-        return false;
-      } else {
-        console.error('❌ Failed to find all required DOM elements after', maxAttempts, 'attempts');
-        // Force setup anyway
-        this.setupEventListeners();
-        this.setupScrollHeader();
-        this.updateModelInfo('tess');
-        return false;
-      }
-    };
-    
-    setupWithRetry();
+    // Mission options and forms are built by registerMissions above, so the page is complete here
+    this.setupEventListeners();
+    this.setupScrollHeader();
+    this.updateModelInfo(this.currentModel); // Registry default mission
+    this.restorePermalink(location.hash);
+    console.log('✅ Initialization complete');
   }
 
-  private testModelButtons() {
-    console.log('Testing model buttons...');
-    const modelOptions = document.querySelectorAll('.model-option');
-    modelOptions.forEach((option, index) => {
-      const modelName = (option as HTMLElement).dataset.model;
-      const hasListener = (option as HTMLElement).onclick !== null;
-      console.log(`Model button ${index}: ${modelName}, has click listener: ${hasListener}`);
-    });
+  // One ModelData entry and selector option per registered mission
+  private registerMissions(registry: MissionRegistry) {
+    for (const mission of registry.missions) {
+      this.models[mission.name] = {
+        metadata: null,
+        deploymentInfo: null,
+        manifest: mission.manifest,
+        featureSchema: null,
+        checks: [],
+        notes: [],
+        status: mission.manifest ? 'loading' : 'error',
+        error: mission.error
+      };
+    }
+    this.currentModel = registry.defaultMission;
+    this.defaultMission = registry.defaultMission;
+
+    const group = document.querySelector('.model-select-group');
+    if (!group) return;
+
+    group.innerHTML = registry.missions.map(mission => `
+      <div class="model-option${mission.name === this.currentModel ? ' selected' : ''}" data-model="${mission.name}">
+        <div class="model-icon">${mission.manifest?.icon ?? '🪐'}</div>
+        <div class="model-info">
+          <div class="model-name">${missionDisplayName(mission)}</div>
+          <div class="model-status status-loading">Loading...</div>
+        </div>
+      </div>
+    `).join('');
   }
 
   private async loadModel(modelName: string) {
+    // Artifact paths, tensor names, classes and metrics for this mission
+    const manifest = this.models[modelName].manifest;
+    if (!manifest) {
+      console.error(`❌ ${modelName} has no usable manifest: ${this.models[modelName].error}`);
+      return;
+    }
+
     try {
       console.log(`Loading ${modelName} model...`);
-      
-      // Real model performance metrics from training
-      const realModelMetrics = {
-        k2: { 
-          accuracy: 97.00, precision: 96.97, recall: 97.00, f1_score: 96.95,
-          model_type: 'Gradient Boosting', features_count: 145 
-        },
-        kepler: { 
-          accuracy: 85.36, precision: 85.13, recall: 85.36, f1_score: 85.13,
-          model_type: 'LightGBM', features_count: 106 
-        },
-        tess: { 
-          accuracy: 89.94, precision: 85.64, recall: 89.27, f1_score: 89.27,
-          model_type: 'Random Forest', features_count: 43 
-        }
-      };
 
-      // Try to load real ONNX models
-      let session = null;
-      let scalerSession = null;
+      // Ordered feature list the scaler was fitted on
+      const featureSchema = await loadFeatureSchema(modelName, manifest.features);
+      console.log(`${modelName} feature list: ${featureSchema.feature_count} columns`);
+
+      // Load the real ONNX models in the worker
+      let status: ModelData['status'] = 'ready';
+      let loadError: string | undefined;
+      let checks: TensorCheck[] = [];
+      const notes: string[] = [];
       
       try {
         // Load model and scaler ONNX files
-        const modelPath = `/models/${modelName}/${modelName}_model.onnx`;
-        const scalerPath = `/models/${modelName}/${modelName}_scaler.onnx`;
-        
-        console.log(`Loading ONNX model from: ${modelPath}`);
-        session = await ort.InferenceSession.create(modelPath);
+        const modelPath = manifestUrl(modelName, manifest.model.path);
+        const scalerPath = manifestUrl(modelName, manifest.scaler.path);
         
-        console.log(`Loading ONNX scaler from: ${scalerPath}`);
-        scalerSession = await ort.InferenceSession.create(scalerPath);
+        console.log(`Loading ONNX model from ${modelPath} and scaler from ${scalerPath}`);
+        // The worker checks tensor names, types and widths against the manifest and feature list
+        const loaded = await this.inference.load(modelName, modelPath, scalerPath, manifest, featureSchema.feature_count);
+        checks = loaded.checks;
+        notes.push(...loaded.notes);
         
         console.log(`✅ ${modelName} ONNX models loaded successfully`);
       } catch (onnxError) {
-        console.warn(`⚠️ ONNX loading failed for ${modelName}, using fallback:`, onnxError);
-        // Continue with demo mode if ONNX loading fails
+        // Keep metadata so the model can still be described, but never predict with it
+        console.error(`❌ ONNX loading failed for ${modelName}:`, onnxError);
+        status = 'error';
+        if (onnxError instanceof InferenceError) {
+          checks = onnxError.checks;
+          notes.push(...onnxError.notes);
+        }
+        loadError = onnxError instanceof Error ? onnxError.message : String(onnxError);
       }
 
-      const metrics = realModelMetrics[modelName as keyof typeof realModelMetrics];
-      
+      const { metrics } = manifest;
+
       this.models[modelName] = {
-        session: session,
-        scalerSession: scalerSession,
         metadata: {
-          dataset: modelName.toUpperCase(),
-          model_type: metrics.model_type,
-          f1_macro_score: metrics.f1_score / 100,
-          accuracy_score: metrics.accuracy / 100,
-          features_count: metrics.features_count,
-          training_samples: modelName === 'k2' ? 5000 : modelName === 'kepler' ? 8500 : 7703
+          dataset: manifest.dataset,
+          model_type: manifest.model_type,
+          accuracy_score: metrics.accuracy,
+          precision_score: metrics.precision,
+          recall_score: metrics.recall,
+          f1_score: metrics.f1_score,
+          roc_auc_score: metrics.roc_auc,
+          cv_mean: metrics.cv_mean,
+          cv_std: metrics.cv_std,
+          features_count: featureSchema.feature_count,
+          training_samples: manifest.training_samples
         },
         deploymentInfo: {
-          output_classes: ['Candidate', 'Confirmed', 'False_Positive'],
-          class_mapping: { 0: 'Candidate', 1: 'Confirmed', 2: 'False_Positive' },
-          feature_names: []
+          output_classes: classNames(manifest),
+          class_mapping: Object.fromEntries(Object.entries(manifest.class_mapping).map(([index, name]) => [Number(index), name])),
+          feature_names: featureSchema.feature_names
         },
-        status: 'ready'
+        manifest,
+        featureSchema,
+        checks,
+        notes,
+        status,
+        error: loadError
       };
 
-      console.log(`✅ ${modelName} model ready (ONNX: ${session ? 'Yes' : 'No'})`);
+      console.log(`${status === 'ready' ? '✅' : '❌'} ${modelName} model ${status}`);
 
     } catch (error) {
       console.error(`❌ Error loading ${modelName} model:`, error);
@@ -197,30 +278,193 @@ class ExoplanetClassifier {
     }
   }
 
-  private setupEventListeners() {
-    console.log('Setting up event listeners...');
-    
-    // Use a more robust approach for production
-    const initializeWhenReady = () => {
-      const modelOptions = document.querySelectorAll('.model-option');
-      const autoFillButtons = document.querySelectorAll('.auto-fill-btn');
-      const manualPredictBtn = document.getElementById('manual-predict');
-      const confusionMatrixBtn = document.getElementById('show-confusion-matrix');
-      
-      if (modelOptions.length > 0 && autoFillButtons.length > 0 && manualPredictBtn && confusionMatrixBtn) {
-        console.log('DOM elements ready, initializing event listeners...');
-        this.initializeEventListeners();
-      } else {
-        console.log('DOM not ready yet, retrying in 100ms...');
-        setTimeout(initializeWhenReady, 100);
+  private updateDiagnostics() {
+    const container = document.getElementById('model-diagnostics');
+    if (!container) return;
+
+    const missions: MissionDiagnostics[] = Object.entries(this.models).map(([name, model]) => ({
+      mission: name,
+      displayName: model.manifest?.display_name ?? name.toUpperCase(),
+      checks: model.checks,
+      notes: model.notes,
+      error: model.error
+    }));
+    renderDiagnostics(container, missions);
+  }
+
+  private async updateRuntimeInfo() {
+    const container = document.getElementById('runtime-info');
+    if (!container) return;
+
+    const version = await this.inference.ready.catch(() => null);
+    console.log(`ONNX Runtime ${version ?? ''}: ${this.runtimeConfig.label}`);
+    renderRuntimeInfo(container, this.capabilities, this.runtimeConfig, version);
+  }
+
+  // Time each available runtime configuration on the selected mission, one after another
+  private async runBenchmark() {
+    const button = document.getElementById('run-benchmark') as HTMLButtonElement | null;
+    const container = document.getElementById('benchmark-results');
+    if (!container) return;
+
+    const modelName = this.currentModel;
+    const { manifest, featureSchema, status } = this.models[modelName] ?? {};
+    if (!manifest || !featureSchema || status !== 'ready') {
+      container.textContent = `❌ ${modelName.toUpperCase()} model is not loaded, nothing to benchmark`;
+      return;
+    }
+
+    if (button) button.disabled = true;
+    const results: BenchmarkResult[] = [];
+    try {
+      for (const config of benchmarkConfigs(this.capabilities)) {
+        container.textContent = `⏳ Benchmarking ${config.label}...`;
+        results.push(await benchmarkConfig(config, modelName, manifest, featureSchema));
       }
-    };
-    
-    initializeWhenReady();
+      renderBenchmark(container, modelName, results, this.runtimeConfig);
+    } finally {
+      if (button) button.disabled = false;
+    }
+  }
+
+  private renderCompareForm() {
+    const container = document.getElementById('compare-form-container');
+    if (container) {
+      container.innerHTML = renderFormFields('compare', COMMON_FORM.fields);
+    }
+  }
+
+  // Run one set of physical parameters through every mission that maps them
+  private async runComparison() {
+    const resultsElement = document.getElementById('compare-results');
+    if (!resultsElement) return;
+
+    const form = readMissionForm('compare', COMMON_FORM);
+    if (!form.ok) {
+      alert(form.message);
+      document.getElementById(fieldId('compare', form.field))?.focus();
+      return;
+    }
+
+    // The common form's fields are the physical parameters themselves
+    const identity = Object.fromEntries(COMMON_FORM.fields.map(field => [field.name, field.name]));
+    const issues = checkPlausibility(physicalParameters(identity, form.values));
+    if (!showPlausibility('compare', issues, parameter => identity[parameter])) {
+      resultsElement.textContent = '❌ Fix the physically impossible inputs marked above';
+      return;
+    }
+
+    resultsElement.textContent = '⏳ Running every mission model...';
+    const rows: MissionComparison[] = await Promise.all(Object.entries(this.models).map(async ([modelName, model]) => {
+      if (!model.manifest) {
+        return { mission: modelName, displayName: modelName.toUpperCase(), classNames: [], weight: 0, mapped: [], error: model.error ?? 'No manifest' };
+      }
+
+      const { values, mapped } = mapCommonInputs(model.manifest, form.values);
+      const row = comparisonEntry(modelName, model.manifest, mapped);
+      if (model.status !== 'ready' || !model.featureSchema) {
+        return { ...row, error: model.error ?? `${model.manifest.display_name} model is not loaded` };
+      }
+      if (mapped.length === 0) {
+        return { ...row, error: 'Manifest maps none of the common parameters' };
+      }
+
+      try {
+        const { vector } = assembleFeatureVector(model.featureSchema, values);
+        return { ...row, result: await this.inference.predict(modelName, vector) };
+      } catch (error) {
+        return { ...row, error: error instanceof Error ? error.message : String(error) };
+      }
+    }));
+
+    const showConsensus = (document.getElementById('compare-consensus') as HTMLInputElement | null)?.checked ?? false;
+    renderComparison(resultsElement, rows, showConsensus ? weightedConsensus(rows) : null);
+  }
+
+  // Score the deployed model on the mission's held-out split and compare with its manifest
+  private async runEvaluation() {
+    const button = document.getElementById('run-evaluation') as HTMLButtonElement | null;
+    const statusElement = document.getElementById('evaluation-status');
+    const resultsElement = document.getElementById('evaluation-results');
+    const summary = document.getElementById('evaluation-summary');
+    const confusion = document.getElementById('evaluation-confusion');
+    const roc = document.getElementById('evaluation-roc');
+    const calibration = document.getElementById('evaluation-reliability');
+    if (!statusElement || !resultsElement || !summary || !confusion || !roc || !calibration) return;
+
+    const modelName = this.currentModel;
+    const { manifest, featureSchema, status, error } = this.models[modelName] ?? {};
+    resultsElement.classList.add('hidden');
+    if (!manifest || !featureSchema || status !== 'ready') {
+      statusElement.textContent = `❌ ${error ?? `${modelName.toUpperCase()} ONNX model is not loaded`}`;
+      return;
+    }
+    if (!manifest.test_split) {
+      statusElement.textContent = `ℹ️ No held-out test split ships with the ${manifest.display_name} model`;
+      return;
+    }
+
+    if (button) button.disabled = true;
+    try {
+      statusElement.textContent = `⏳ Loading ${manifest.display_name} test split...`;
+      const testSet = await loadTestSet(modelName, manifest, featureSchema);
+
+      const started = performance.now();
+      const { results } = this.inference.predictBatch(modelName, testSet.matrix, testSet.rows, BATCH_SIZE, (done, total) => {
+        statusElement.textContent = `⏳ Classifying test rows: ${done}/${total}`;
+      });
+      const outputs = await results;
+
+      const names = classNames(manifest);
+      const report = evaluatePredictions(testSet.labels, outputs.map(output => output.probabilities), names);
+      console.log(`${modelName} evaluation: accuracy ${(report.accuracy * 100).toFixed(2)}% on ${report.rows} rows`);
+
+      statusElement.textContent = `✅ ${manifest.display_name}: ${report.rows} held-out rows classified in ${((performance.now() - started) / 1000).toFixed(1)}s`;
+      renderEvaluationSummary(summary, report, manifest.metrics);
+      // Fresh container so toggle listeners don't pile up across runs
+      const matrixContainer = document.createElement('div');
+      confusion.replaceChildren(matrixContainer);
+      new ConfusionMatrixView(matrixContainer, {
+        source: `Live run of the deployed ${manifest.display_name} model on ${report.rows} held-out rows`,
+        matrix: report.confusion,
+        samples: outputs.map((output, index) => ({
+          label: `Test row ${index + 1}`,
+          actual: testSet.labels[index],
+          predicted: report.predictions[index],
+          probabilities: output.probabilities
+        }))
+      }, names).render();
+      renderRocCurves(roc, report);
+
+      renderReliability(calibration, reliability(outputs.map(output => output.probabilities), testSet.labels));
+      resultsElement.classList.remove('hidden');
+    } catch (error) {
+      console.error('Evaluation error:', error);
+      statusElement.textContent = `❌ Evaluation failed: ${error instanceof Error ? error.message : error}`;
+    } finally {
+      if (button) button.disabled = false;
+    }
+  }
+
+  // Reflect each mission's ModelData.status/error on its selector badge
+  private updateModelStatuses() {
+    const labels = { loading: 'Loading...', ready: 'Ready', error: 'Unavailable' };
+
+    document.querySelectorAll('.model-option').forEach(option => {
+      const modelName = (option as HTMLElement).dataset.model;
+      const badge = option.querySelector('.model-status') as HTMLElement | null;
+      if (!modelName || !badge || !this.models[modelName]) return;
+
+      const { status, error } = this.models[modelName];
+      badge.textContent = labels[status];
+      badge.className = `model-status status-${status}`;
+      badge.title = error ?? '';
+    });
   }
 
-  private initializeEventListeners() {
-    console.log('Initializing event listeners...');
+  // Called once from init(), which runs after DOMContentLoaded
+  private setupEventListeners() {
+    console.log('Setting up event listeners...');
     
     try {
       // Model selection buttons - Use more robust event delegation
@@ -237,12 +481,7 @@ class ExoplanetClassifier {
           const modelName = modelOption.dataset.model;
           console.log('Selected model:', modelName);
           
-          // Update selected model
-          document.querySelectorAll('.model-option').forEach(opt => opt.classList.remove('selected'));
-          modelOption.classList.add('selected');
-          
-          this.currentModel = modelName;
-          this.updateModelInfo(modelName);
+          this.selectMission(modelName);
           
           // Prevent default action
           e.preventDefault();
@@ -261,12 +500,7 @@ class ExoplanetClassifier {
             console.log('Selected model:', modelName);
             
             if (modelName) {
-              // Update selected model
-              document.querySelectorAll('.model-option').forEach(opt => opt.classList.remove('selected'));
-              option.classList.add('selected');
-              
-              this.currentModel = modelName;
-              this.updateModelInfo(modelName);
+              this.selectMission(modelName);
             }
             
             e.preventDefault();
@@ -277,25 +511,43 @@ class ExoplanetClassifier {
         }
       });
 
-      // Auto-fill buttons for manual input
-      const autoFillButtons = document.querySelectorAll('.auto-fill-btn');
-      console.log('Found auto-fill buttons:', autoFillButtons.length);
-      
-      autoFillButtons.forEach((btn, index) => {
-        try {
-          console.log(`Setting up auto-fill button ${index}:`, btn);
-          btn.addEventListener('click', (e) => {
-            console.log('Auto-fill button clicked');
-            const target = e.target as HTMLElement;
-            const type = target.dataset.type!;
-            console.log('Auto-fill type:', type);
-            this.autoFillFormData(type);
-          });
-        } catch (error) {
-          console.error(`Failed to setup auto-fill button ${index}:`, error);
+      // Auto-fill buttons are generated per mission, so delegate
+      document.addEventListener('click', (e) => {
+        const autoFillBtn = (e.target as HTMLElement).closest('.auto-fill-btn') as HTMLElement | null;
+        if (!autoFillBtn?.dataset.type) return;
+
+        console.log('Auto-fill type:', autoFillBtn.dataset.type);
+        this.autoFillFormData(autoFillBtn.dataset.type);
+      });
+
+      document.getElementById('lookup-imported')?.addEventListener('click', (e) => {
+        if ((e.target as HTMLElement).closest('[data-clear-import]')) {
+          this.setImportedTarget(null);
+        }
+      });
+
+      // Re-check physical plausibility whenever an entered value changes
+      document.getElementById('manual-form-container')?.addEventListener('change', () => {
+        const form = this.models[this.currentModel]?.manifest?.form;
+        if (form) {
+          this.checkFormPlausibility(this.currentModel, peekMissionForm(this.currentModel, form));
         }
       });
 
+      // Keep the URL hash in step with the form, so the address bar is always a permalink
+      document.getElementById('manual-form-container')?.addEventListener('input', () => this.updatePermalink());
+
+      // Back/forward between mission selections (and opened permalinks)
+      window.addEventListener('popstate', () => {
+        if (decodePermalink(location.hash)) {
+          this.restorePermalink(location.hash, false);
+        } else {
+          this.selectMission(this.defaultMission, false);
+        }
+      });
+
+      document.getElementById('share-link')?.addEventListener('click', () => this.copyPermalink());
+
       // Manual prediction button
       const manualPredictBtn = document.getElementById('manual-predict');
       console.log('Found manual predict button:', !!manualPredictBtn);
@@ -330,6 +582,78 @@ class ExoplanetClassifier {
         console.error('Confusion matrix button not found!');
       }
 
+      // Demo mode toggle
+      const demoToggle = document.getElementById('demo-mode') as HTMLInputElement | null;
+      if (demoToggle) {
+        demoToggle.checked = this.demoMode;
+        demoToggle.addEventListener('change', () => {
+          this.demoMode = demoToggle.checked;
+          console.log('Demo mode:', this.demoMode);
+        });
+      }
+
+      const monteCarloToggle = document.getElementById('monte-carlo-mode') as HTMLInputElement | null;
+      if (monteCarloToggle) {
+        monteCarloToggle.checked = this.monteCarloMode;
+        monteCarloToggle.addEventListener('change', () => {
+          this.monteCarloMode = monteCarloToggle.checked;
+          console.log('Monte Carlo mode:', this.monteCarloMode);
+        });
+      }
+
+      // Batch catalog classification
+      const batchPredictBtn = document.getElementById('batch-predict');
+      if (batchPredictBtn) {
+        batchPredictBtn.addEventListener('click', () => {
+          console.log('Batch predict button clicked');
+          this.runBatchPrediction();
+        });
+      }
+
+      document.getElementById('lightcurve-search')?.addEventListener('click', () => {
+        console.log('Transit search button clicked');
+        this.runTransitSearch();
+      });
+
+      document.getElementById('lightcurve-fill')?.addEventListener('click', () => this.fillFromTransitSearch());
+
+      document.getElementById('compare-predict')?.addEventListener('click', () => {
+        console.log('Compare button clicked');
+        this.runComparison();
+      });
+
+      document.getElementById('run-evaluation')?.addEventListener('click', () => {
+        console.log('Evaluate button clicked');
+        this.runEvaluation();
+      });
+
+      document.getElementById('run-benchmark')?.addEventListener('click', () => {
+        console.log('Benchmark button clicked');
+        this.runBenchmark();
+      });
+
+      document.getElementById('batch-cancel')?.addEventListener('click', () => {
+        if (this.activeBatchId !== null) {
+          console.log('Cancelling batch', this.activeBatchId);
+          this.inference.cancel(this.activeBatchId);
+        }
+      });
+
+      // Export buttons are re-rendered with each result, so delegate
+      document.addEventListener('click', (e) => {
+        const exportBtn = (e.target as HTMLElement).closest('[data-export]') as HTMLElement | null;
+        if (!exportBtn) return;
+
+        const format = exportBtn.dataset.export as ExportFormat;
+        const records = exportBtn.dataset.scope === 'batch'
+          ? this.batchRecords
+          : this.lastRecord ? [this.lastRecord] : [];
+        if (records.length === 0) return;
+
+        const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-');
+        downloadRecords(records, format, `exoplanet-predictions-${stamp}`);
+      });
+
       // Modal close functionality
       const modal = document.getElementById('confusion-matrix-modal');
       const closeBtn = document.querySelector('.close');
@@ -402,6 +726,66 @@ class ExoplanetClassifier {
     console.log('Scroll header setup complete');
   }
 
+  // Switching missions adds a browser history entry unless it comes from history itself
+  private selectMission(modelName: string, pushHistory = true) {
+    const changed = modelName !== this.currentModel;
+    document.querySelectorAll('.model-option').forEach(opt => {
+      opt.classList.toggle('selected', (opt as HTMLElement).dataset.model === modelName);
+    });
+
+    this.currentModel = modelName;
+    this.updateModelInfo(modelName);
+    if (changed && pushHistory) {
+      history.pushState(null, '', encodePermalink({ mission: modelName, values: {}, errors: {}, run: false }));
+    }
+  }
+
+  private currentPermalink(run: boolean): string {
+    const form = this.models[this.currentModel]?.manifest?.form;
+    return encodePermalink({
+      mission: this.currentModel,
+      values: form ? peekMissionForm(this.currentModel, form) : {},
+      errors: form ? peekFieldErrors(this.currentModel, form) : {},
+      run
+    });
+  }
+
+  private updatePermalink() {
+    history.replaceState(null, '', this.currentPermalink(false));
+  }
+
+  private async copyPermalink() {
+    const url = `${location.origin}${location.pathname}${location.search}${this.currentPermalink(true)}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      this.showNotification('🔗 Link copied: opening it restores this form and runs the prediction');
+    } catch (error) {
+      console.warn('Clipboard unavailable:', error);
+      prompt('Copy this link:', url);
+    }
+  }
+
+  // Select the linked mission and fill its form; `allowRun` is off for back/forward navigation
+  private restorePermalink(hash: string, allowRun = true) {
+    const state = decodePermalink(hash);
+    if (!state) return;
+
+    if (!this.models[state.mission]) {
+      this.showNotification(`❌ Link refers to an unknown mission: ${state.mission}`);
+      return;
+    }
+
+    console.log(`🔗 Restoring ${state.mission} from the link (${Object.keys(state.values).length} values)`);
+    this.selectMission(state.mission, false);
+    if (Object.keys(state.values).length === 0) return;
+
+    this.fillManualForm(state.mission, state.values, state.errors);
+    this.checkFormPlausibility(state.mission, state.values);
+    if (state.run && allowRun) {
+      this.makeManualPrediction();
+    }
+  }
+
   private updateModelInfo(modelName: string) {
     const modelNameElement = document.getElementById('current-model-name');
     const accuracyElement = document.getElementById('model-accuracy');
@@ -410,269 +794,212 @@ class ExoplanetClassifier {
 
     if (!modelNameElement || !accuracyElement || !precisionElement || !recallElement) return;
 
-    const modelMetrics = {
-      k2: { accuracy: 97.00, precision: 96.97, recall: 97.00 },
-      kepler: { accuracy: 85.36, precision: 85.13, recall: 85.36 },
-      tess: { accuracy: 89.94, precision: 85.64, recall: 89.27 }
-    };
+    const { metadata, manifest } = this.models[modelName] ?? {};
+    const percent = (value: number | undefined) => value === undefined ? '—' : `${(value * 100).toFixed(2)}%`;
 
-    const metrics = modelMetrics[modelName as keyof typeof modelMetrics];
-    
-    modelNameElement.textContent = `${modelName.toUpperCase()} Model`;
-    accuracyElement.textContent = `${metrics.accuracy}%`;
-    precisionElement.textContent = `${metrics.precision}%`;
-    recallElement.textContent = `${metrics.recall}%`;
+    modelNameElement.textContent = `${manifest?.display_name ?? modelName.toUpperCase()} Model`;
+    accuracyElement.textContent = percent(metadata?.accuracy_score);
+    precisionElement.textContent = percent(metadata?.precision_score);
+    recallElement.textContent = percent(metadata?.recall_score);
 
     // Update manual input form based on selected model
     this.updateManualInputForm(modelName);
   }
 
-  private showConfusionMatrix() {
+  private async showConfusionMatrix() {
     const modal = document.getElementById('confusion-matrix-modal');
     const modalTitle = document.getElementById('modal-title');
-    const confusionMatrixImg = document.getElementById('confusion-matrix-img') as HTMLImageElement;
-
-    if (!modal || !modalTitle || !confusionMatrixImg) return;
+    const view = document.getElementById('confusion-matrix-view');
 
-    // Update modal content based on current model
-    modalTitle.textContent = `${this.currentModel.toUpperCase()} Model - Confusion Matrix`;
-    confusionMatrixImg.src = `/exoplanet-hunting/${this.currentModel}_cm.png`;
-    confusionMatrixImg.alt = `${this.currentModel.toUpperCase()} Confusion Matrix`;
+    if (!modal || !modalTitle || !view) return;
 
-    // Show modal
+    const modelName = this.currentModel;
+    const manifest = this.models[modelName]?.manifest;
+    modalTitle.textContent = `${manifest?.display_name ?? modelName.toUpperCase()} Model - Confusion Matrix`;
+    view.textContent = 'Loading confusion matrix...';
     modal.style.display = 'block';
+
+    try {
+      if (!manifest) {
+        throw new Error(this.models[modelName]?.error ?? 'No manifest for this mission');
+      }
+      const data = await loadConfusionData(modelName, manifest);
+
+      // Fresh container so listeners from the previous mission don't pile up
+      const matrixContainer = document.createElement('div');
+      view.replaceChildren(matrixContainer);
+      new ConfusionMatrixView(matrixContainer, data, classNames(manifest)).render();
+    } catch (error) {
+      console.error('Confusion matrix error:', error);
+      view.textContent = `❌ ${error instanceof Error ? error.message : error}`;
+    }
   }
 
   private updateManualInputForm(modelName: string) {
     const formContainer = document.getElementById('manual-form-container');
+    const presetContainer = document.querySelector('.auto-fill-buttons');
     if (!formContainer) return;
 
-    const forms = {
-      kepler: `
-        <div class="form-description">
-          <strong>Kepler Mission Format:</strong> Kepler veri setinde kullanılan standart parametreler
-        </div>
-        <div class="manual-form">
-          <div class="form-field">
-            <label for="kepler-orbital_period">Orbital Period (gün) *</label>
-            <input type="number" id="kepler-orbital_period" placeholder="10.5" step="0.1" required>
-          </div>
-          <div class="form-field">
-            <label for="kepler-transit_duration">Transit Duration (saat) *</label>
-            <input type="number" id="kepler-transit_duration" placeholder="3.2" step="0.1" required>
-          </div>
-          <div class="form-field">
-            <label for="kepler-planet_radius">Planet Radius (Earth radii) *</label>
-            <input type="number" id="kepler-planet_radius" placeholder="1.8" step="0.1" required>
-          </div>
-          <div class="form-field">
-            <label for="kepler-star_radius">Star Radius (Solar radii) *</label>
-            <input type="number" id="kepler-star_radius" placeholder="1.1" step="0.1" required>
-          </div>
-          <div class="form-field">
-            <label for="kepler-stellar_effective_temperature">Star Temperature (K) *</label>
-            <input type="number" id="kepler-stellar_effective_temperature" placeholder="5778" step="1" required>
-          </div>
-          <div class="form-field">
-            <label for="kepler-transit_depth">Transit Depth (ppm) *</label>
-            <input type="number" id="kepler-transit_depth" placeholder="1200" step="1" required>
-          </div>
-          <div class="form-field">
-            <label for="kepler-eccentricity">Eccentricity</label>
-            <input type="number" id="kepler-eccentricity" placeholder="0.0" step="0.01" min="0" max="1">
-          </div>
-          <div class="form-field">
-            <label for="kepler-signal_to_noise">Signal to Noise</label>
-            <input type="number" id="kepler-signal_to_noise" placeholder="15.0" step="0.1">
-          </div>
-        </div>
-      `,
-      k2: `
-        <div class="form-description">
-          <strong>K2 Mission Format:</strong> K2 (Extended Kepler) veri setinde kullanılan parametreler
-        </div>
-        <div class="manual-form">
-          <div class="form-field">
-            <label for="k2-period">Period (gün) *</label>
-            <input type="number" id="k2-period" placeholder="8.2" step="0.1" required>
-          </div>
-          <div class="form-field">
-            <label for="k2-duration">Duration (saat) *</label>
-            <input type="number" id="k2-duration" placeholder="2.8" step="0.1" required>
-          </div>
-          <div class="form-field">
-            <label for="k2-depth">Depth (ppm) *</label>
-            <input type="number" id="k2-depth" placeholder="800" step="1" required>
-          </div>
-          <div class="form-field">
-            <label for="k2-planet_radius_earth">Planet Radius (Earth radii) *</label>
-            <input type="number" id="k2-planet_radius_earth" placeholder="1.5" step="0.1" required>
-          </div>
-          <div class="form-field">
-            <label for="k2-star_teff">Star Teff (K) *</label>
-            <input type="number" id="k2-star_teff" placeholder="5200" step="1" required>
-          </div>
-          <div class="form-field">
-            <label for="k2-star_logg">Star Log g</label>
-            <input type="number" id="k2-star_logg" placeholder="4.5" step="0.1">
-          </div>
-          <div class="form-field">
-            <label for="k2-star_radius_solar">Star Radius (Solar radii)</label>
-            <input type="number" id="k2-star_radius_solar" placeholder="0.9" step="0.1">
-          </div>
-        </div>
-      `,
-      tess: `
-        <div class="form-description">
-          <strong>TESS Mission Format:</strong> TESS TOI (TESS Objects of Interest) katalog parametreleri
-        </div>
-        <div class="manual-form">
-          <div class="form-field">
-            <label for="tess-orbital_period">Orbital Period (gün) *</label>
-            <input type="number" id="tess-orbital_period" placeholder="15.3" step="0.1" required>
-          </div>
-          <div class="form-field">
-            <label for="tess-transit_duration">Transit Duration (saat) *</label>
-            <input type="number" id="tess-transit_duration" placeholder="4.1" step="0.1" required>
-          </div>
-          <div class="form-field">
-            <label for="tess-transit_depth">Transit Depth (ppm) *</label>
-            <input type="number" id="tess-transit_depth" placeholder="2500" step="1" required>
-          </div>
-          <div class="form-field">
-            <label for="tess-planet_radius">Planet Radius (Earth radii) *</label>
-            <input type="number" id="tess-planet_radius" placeholder="2.2" step="0.1" required>
-          </div>
-          <div class="form-field">
-            <label for="tess-star_radius">Star Radius (Solar radii) *</label>
-            <input type="number" id="tess-star_radius" placeholder="1.3" step="0.1" required>
-          </div>
-          <div class="form-field">
-            <label for="tess-star_teff">Star Teff (K) *</label>
-            <input type="number" id="tess-star_teff" placeholder="6100" step="1" required>
-          </div>
-          <div class="form-field">
-            <label for="tess-star_mass">Star Mass (Solar masses)</label>
-            <input type="number" id="tess-star_mass" placeholder="1.2" step="0.1">
-          </div>
-          <div class="form-field">
-            <label for="tess-star_logg">Star Log g</label>
-            <input type="number" id="tess-star_logg" placeholder="4.3" step="0.1">
-          </div>
-        </div>
-      `
-    };
+    const manifest = this.models[modelName]?.manifest;
+    if (!manifest) {
+      formContainer.innerHTML = `<div class="form-description">❌ ${escapeHtml(this.models[modelName]?.error ?? 'No manifest for this mission')}</div>`;
+      if (presetContainer) presetContainer.innerHTML = '';
+      return;
+    }
+
+    formContainer.innerHTML = renderMissionForm(modelName, manifest.display_name, manifest.form);
+    if (presetContainer) {
+      presetContainer.innerHTML = renderPresetButtons(manifest.form);
+    }
+    this.setImportedTarget(null);
+    this.formTransitSearch = null;
+    this.updateTargetLookup(modelName);
+  }
+
+  private updateTargetLookup(modelName: string) {
+    const lookupContainer = document.getElementById('target-lookup');
+    if (!lookupContainer) return;
+
+    const { manifest, featureSchema } = this.models[modelName] ?? {};
+    if (!manifest || !featureSchema) {
+      lookupContainer.innerHTML = `<div class="explanation-note">❌ Target lookup needs the ${modelName.toUpperCase()} feature list</div>`;
+      return;
+    }
+
+    // Fresh container so listeners from the previous mission don't pile up
+    const view = document.createElement('div');
+    lookupContainer.replaceChildren(view);
+    new TargetLookup(
+      view,
+      modelName,
+      featureSchema,
+      manifest.form,
+      manifest.catalog ? () => loadCatalogSnapshot(modelName, manifest) : null,
+      target => this.fillFromCatalog(modelName, target)
+    ).render();
+  }
+
+  private fillFromCatalog(modelName: string, target: ImportedTarget) {
+    const form = this.models[modelName]?.manifest?.form;
+    if (!form || modelName !== this.currentModel) return;
+
+    this.fillManualForm(modelName, target.form, target.errors);
+    this.setImportedTarget({ ...target, mission: modelName });
+    this.checkFormPlausibility(modelName, target.form);
+    this.showNotification(`📥 ${target.label} loaded from the ${target.source}`);
+  }
+
+  // Replace every manual-form value and ± uncertainty; fields missing from `values` are cleared
+  private fillManualForm(modelName: string, values: FeatureValues, errors: FeatureValues) {
+    const form = this.models[modelName]?.manifest?.form;
+    if (!form) return;
+
+    for (const field of form.fields) {
+      const input = document.getElementById(fieldId(modelName, field.name)) as HTMLInputElement | null;
+      const errorInput = document.getElementById(errorFieldId(modelName, field.name)) as HTMLInputElement | null;
+      const value = values[field.name];
+      const error = errors[field.name];
+      if (input) input.value = value === null || value === undefined ? '' : String(+value.toPrecision(8));
+      if (errorInput) errorInput.value = error === null || error === undefined ? '' : String(+error.toPrecision(4));
+    }
+    this.formTransitSearch = null;
+    this.updatePermalink();
+  }
+
+  private setImportedTarget(target: (ImportedTarget & { mission: string }) | null) {
+    this.importedTarget = target;
+
+    const badge = document.getElementById('lookup-imported');
+    if (!badge) return;
+    badge.classList.toggle('hidden', !target);
+    badge.innerHTML = target
+      ? `📥 Using ${escapeHtml(target.label)} from the ${escapeHtml(target.source)}: catalog columns outside the form feed the model too. <button class="export-btn" data-clear-import>Clear</button>`
+      : '';
+  }
+
+  private async initHistory() {
+    const container = document.getElementById('history-panel');
+    if (!container) return;
+
+    try {
+      this.history = await PredictionHistory.open();
+    } catch (error) {
+      console.warn('⚠️ Prediction history unavailable:', error);
+      container.innerHTML = `<div class="explanation-note">❌ History is not saved: ${escapeHtml(error instanceof Error ? error.message : String(error))}</div>`;
+      return;
+    }
+
+    this.historyPanel = new HistoryPanel(container, mission => this.models[mission]?.manifest?.display_name ?? mission.toUpperCase(), {
+      rerun: entry => this.rerunHistoryEntry(entry),
+      remove: async id => {
+        await this.history?.delete(id);
+        this.refreshHistory();
+      },
+      clear: async () => {
+        await this.history?.clear();
+        this.refreshHistory();
+      }
+    });
+    this.refreshHistory();
+  }
 
-    formContainer.innerHTML = forms[modelName as keyof typeof forms];
+  private async refreshHistory() {
+    if (!this.history || !this.historyPanel) return;
+    try {
+      this.historyPanel.update(await this.history.list());
+    } catch (error) {
+      console.error('History error:', error);
+    }
+  }
+
+  private async saveToHistory(entry: HistoryEntry) {
+    if (!this.history) return;
+    try {
+      await this.history.add(entry);
+      this.refreshHistory();
+    } catch (error) {
+      console.error('Could not save prediction to history:', error);
+    }
+  }
+
+  // Restore a saved entry's inputs into its mission's form and predict again
+  private async rerunHistoryEntry(entry: HistoryEntry) {
+    const mission = entry.record.model;
+    if (!this.models[mission]?.manifest) {
+      this.showNotification(`❌ The ${mission.toUpperCase()} mission is no longer available`);
+      return;
+    }
+
+    if (mission !== this.currentModel) {
+      this.selectMission(mission);
+    }
+
+    this.fillManualForm(mission, entry.record.inputs, entry.errors);
+    this.setImportedTarget(entry.catalog
+      ? { ...entry.catalog, form: entry.record.inputs, errors: entry.errors, mission }
+      : null);
+    document.getElementById('prediction-result')?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+
+    const previous = this.lastRecord;
+    await this.makeManualPrediction();
+    if (this.lastRecord && this.lastRecord !== previous) {
+      const before = `${entry.record.predicted_class} (${entry.record.confidence.toFixed(1)}%)`;
+      const now = `${this.lastRecord.predicted_class} (${this.lastRecord.confidence.toFixed(1)}%)`;
+      this.showNotification(before === now ? `↻ Same result as before: ${now}` : `↻ Was ${before}, now ${now}`);
+    }
   }
 
   private autoFillFormData(dataType: string) {
     const modelName = this.currentModel;
     console.log(`Auto-filling ${dataType} data for ${modelName} model`);
     
-    // Define realistic astronomical data based on actual training datasets
-    // These values are derived from real NASA mission data statistics
-    const sampleData = {
-      confirmed: {
-        kepler: {
-          orbital_period: 85.3,        // Typical confirmed exoplanet period
-          transit_duration: 3.2,       // Standard transit duration
-          planet_radius: 1.84,         // Earth-size to Super-Earth
-          star_radius: 1.12,           // Slightly larger than Sun
-          stellar_effective_temperature: 5456, // K-type star
-          transit_depth: 890,          // Parts per million
-          eccentricity: 0.03,          // Nearly circular orbit
-          signal_to_noise: 18.7        // Good detection confidence
-        },
-        k2: {
-          period: 29.2,                // K2 confirmed planet period
-          duration: 2.8,               // Transit duration in hours
-          depth: 1240,                 // Transit depth ppm
-          planet_radius_earth: 2.13,   // Super-Earth size
-          star_teff: 5234,             // Stellar effective temperature
-          star_logg: 4.42,             // Surface gravity log
-          star_radius_solar: 1.08      // Solar radii
-        },
-        tess: {
-          orbital_period: 12.4,        // TESS confirmed period
-          transit_duration: 2.1,       // Hours
-          transit_depth: 1580,         // ppm
-          planet_radius: 2.67,         // Earth radii
-          star_radius: 0.98,           // Solar radii
-          star_teff: 5189,             // Kelvin
-          star_mass: 0.94,             // Solar masses
-          star_logg: 4.38              // log g
-        }
-      },
-      candidate: {
-        kepler: {
-          orbital_period: 127.8,       // Longer period candidate
-          transit_duration: 4.1,       // Moderate duration
-          planet_radius: 3.42,         // Larger candidate
-          star_radius: 1.34,           // G-type star
-          stellar_effective_temperature: 5789, // Solar-like
-          transit_depth: 1450,         // Medium depth
-          eccentricity: 0.12,          // Some eccentricity
-          signal_to_noise: 9.8         // Lower confidence
-        },
-        k2: {
-          period: 45.6,                // K2 candidate period
-          duration: 3.4,               // Hours
-          depth: 760,                  // Shallower transit
-          planet_radius_earth: 1.67,   // Between Earth and Neptune
-          star_teff: 5634,             // F-type star
-          star_logg: 4.28,             // Surface gravity
-          star_radius_solar: 1.23      // Larger star
-        },
-        tess: {
-          orbital_period: 18.7,        // TESS candidate
-          transit_duration: 2.9,       // Hours
-          transit_depth: 920,          // ppm
-          planet_radius: 1.89,         // Super-Earth
-          star_radius: 1.05,           // Solar radii
-          star_teff: 5723,             // Kelvin
-          star_mass: 1.12,             // Solar masses
-          star_logg: 4.31              // log g
-        }
-      },
-      'false-positive': {
-        kepler: {
-          orbital_period: 0.87,        // Very short period (stellar rotation)
-          transit_duration: 0.23,      // Very short duration
-          planet_radius: 0.043,        // Unrealistically small
-          star_radius: 2.67,           // Giant star (binary contamination)
-          stellar_effective_temperature: 4123, // Cool star
-          transit_depth: 34,           // Very shallow
-          eccentricity: 0.89,          // Highly eccentric (stellar activity)
-          signal_to_noise: 3.2         // Poor signal quality
-        },
-        k2: {
-          period: 0.52,                // Sub-day period (stellar)
-          duration: 0.18,              // Too short for planet
-          depth: 15,                   // Very shallow
-          planet_radius_earth: 0.021,  // Too small
-          star_teff: 3456,             // M-dwarf with activity
-          star_logg: 3.89,             // Evolved star
-          star_radius_solar: 4.12      // Giant/subgiant
-        },
-        tess: {
-          orbital_period: 0.34,        // Ultra-short period
-          transit_duration: 0.11,      // Minutes, not hours
-          transit_depth: 8,            // Very shallow
-          planet_radius: 0.012,        // Impossibly small
-          star_radius: 3.45,           // Giant star
-          star_teff: 3892,             // Cool giant
-          star_mass: 2.78,             // Massive star
-          star_logg: 3.12              // Low surface gravity
-        }
-      }
-    };
-    
-    const data = sampleData[dataType as keyof typeof sampleData][modelName as keyof typeof sampleData.confirmed];
+    // Example objects ship with the mission manifest
+    const preset = this.models[modelName]?.manifest?.form.presets.find(p => p.id === dataType);
+    if (!preset) return;
     
     // Fill the form fields
-    Object.entries(data).forEach(([field, value]) => {
-      const input = document.getElementById(`${modelName}-${field}`) as HTMLInputElement;
+    Object.entries(preset.values).forEach(([field, value]) => {
+      const input = document.getElementById(fieldId(modelName, field)) as HTMLInputElement;
       if (input) {
         input.value = value.toString();
         // Add visual feedback
@@ -685,14 +1012,16 @@ class ExoplanetClassifier {
       }
     });
     
-    // Show notification with expected result
-    const expectedResults = {
-      confirmed: '✅ Expected: Confirmed Exoplanet',
-      candidate: '🔍 Expected: Candidate Exoplanet', 
-      'false-positive': '❌ Expected: False Positive'
-    };
-    
-    this.showNotification(`${dataType.charAt(0).toUpperCase() + dataType.slice(1)} data loaded for ${modelName.toUpperCase()} model\n${expectedResults[dataType as keyof typeof expectedResults]}`);
+    // Presets carry no uncertainties, catalog row or light curve; drop any left over from the previous object
+    this.setImportedTarget(null);
+    this.formTransitSearch = null;
+    document.querySelectorAll<HTMLInputElement>('#manual-form-container .error-input').forEach(input => {
+      input.value = '';
+    });
+    this.updatePermalink();
+
+    this.checkFormPlausibility(modelName, preset.values);
+    this.showNotification(`${dataType.charAt(0).toUpperCase() + dataType.slice(1)} data loaded for ${modelName.toUpperCase()} model\n${preset.expected}`);
   }
   
   private showNotification(message: string) {
@@ -739,191 +1068,438 @@ class ExoplanetClassifier {
   private async makeManualPrediction() {
     try {
       // Get form data based on current model
-      const formData = this.getFormData(this.currentModel);
+      const form = this.getFormData(this.currentModel);
       
-      if (!formData) {
-        alert('Please fill in the required fields! Fields marked with (*) are mandatory.');
+      if (!form) {
         return;
       }
+      const { values: formData, errors } = form;
 
-      await this.showPredictionLoading();
+      this.showPredictionLoading();
       
       // Convert form data to feature vector
-      const features = this.convertToFeatureVector(formData, this.currentModel);
+      const { values, quantities } = this.manualFeatureValues(this.currentModel, formData, errors);
+      const features = this.convertToFeatureVector(values, this.currentModel);
       const result = await this.predictFromData(features);
       
-      this.displayPredictionResult(result, `${this.currentModel.toUpperCase()} manual data`);
+      const imported = this.importedTarget?.mission === this.currentModel ? this.importedTarget : null;
+      const inputDescription = imported ? `${imported.label} (${imported.source})` : `${this.currentModel.toUpperCase()} manual data`;
+      this.lastRecord = this.buildRecord(this.currentModel, inputDescription, formData, result);
+      this.saveToHistory({
+        record: this.lastRecord,
+        errors,
+        catalog: imported ? { label: imported.label, source: imported.source, values: imported.values } : null
+      });
+      const derivedInputs = this.models[this.currentModel].manifest?.derived_inputs ?? {};
+      this.displayPredictionResult(result, inputDescription, renderDerivedQuantities(quantities, derivedInputs));
+      this.checkTrainingCoverage(values);
+      this.explainManualPrediction(features, result);
+      this.estimateUncertainty(this.monteCarloMode ? formData : null, errors, result);
+      this.plotTransitModel(formData);
+      this.vetManualPrediction(formData, result);
       
     } catch (error) {
       console.error('Manual prediction error:', error);
-      alert('Prediction error! Please check the input values.');
+      this.checkTrainingCoverage(null);
+      this.explainManualPrediction(null, null);
+      this.estimateUncertainty(null, {}, null);
+      this.plotTransitModel(null);
+      this.vetManualPrediction(null, null);
+      this.displayPredictionError(error instanceof Error ? error.message : 'Prediction failed');
     }
   }
 
-  private getFormData(modelName: string): any {
-    const requiredFields = {
-      kepler: ['orbital_period', 'transit_duration', 'planet_radius', 'star_radius', 'stellar_effective_temperature', 'transit_depth'],
-      k2: ['period', 'duration', 'depth', 'planet_radius_earth', 'star_teff'],
-      tess: ['orbital_period', 'transit_duration', 'transit_depth', 'planet_radius', 'star_radius', 'star_teff']
-    };
+  // Attribute the predicted class to the entered features (explain.ts); ONNX results only
+  private async explainManualPrediction(features: Float32Array | null, result: PredictionOutput | null) {
+    const container = document.getElementById('prediction-explanation');
+    if (!container) return;
 
-    const allFields = {
-      kepler: ['orbital_period', 'transit_duration', 'planet_radius', 'star_radius', 'stellar_effective_temperature', 'transit_depth', 'eccentricity', 'signal_to_noise'],
-      k2: ['period', 'duration', 'depth', 'planet_radius_earth', 'star_teff', 'star_logg', 'star_radius_solar'],
-      tess: ['orbital_period', 'transit_duration', 'transit_depth', 'planet_radius', 'star_radius', 'star_teff', 'star_mass', 'star_logg']
-    };
+    const token = ++this.explanationToken;
+    const modelName = this.currentModel;
+    const { manifest, featureSchema } = this.models[modelName] ?? {};
 
-    const formData: any = {};
-    const fields = allFields[modelName as keyof typeof allFields];
-    const required = requiredFields[modelName as keyof typeof requiredFields];
-
-    // Check required fields
-    for (const field of required) {
-      const input = document.getElementById(`${modelName}-${field}`) as HTMLInputElement;
-      if (!input || !input.value.trim()) {
-        // Highlight missing field
-        if (input) {
-          input.classList.add('required-field');
-          input.focus();
-        }
-        return null;
-      }
-      formData[field] = parseFloat(input.value);
+    if (!features || !result || result.source !== 'onnx' || !manifest || !featureSchema) {
+      container.classList.add('hidden');
+      container.innerHTML = '';
+      return;
     }
 
-    // Get optional fields
-    for (const field of fields) {
-      if (!required.includes(field)) {
-        const input = document.getElementById(`${modelName}-${field}`) as HTMLInputElement;
-        if (input && input.value.trim()) {
-          formData[field] = parseFloat(input.value);
-        } else {
-          // Set default values for optional fields
-          const defaults: any = {
-            eccentricity: 0.0,
-            signal_to_noise: 10.0,
-            star_logg: 4.4,
-            star_radius_solar: 1.0,
-            star_mass: 1.0
-          };
-          formData[field] = defaults[field] || 0.0;
-        }
+    const className = classNames(manifest)[result.classIndex] ?? String(result.classIndex);
+    container.classList.remove('hidden');
+    container.innerHTML = `<h5>🧭 Why ${className}?</h5><div class="explanation-note">⏳ Estimating feature contributions...</div>`;
+
+    try {
+      const explanation = await explainPrediction(
+        (data, rows) => this.inference.predictBatch(modelName, data, rows, BATCH_SIZE, () => {})
+          .results.then(outputs => outputs.map(output => output.probabilities)),
+        featureSchema,
+        manifest.form,
+        features,
+        result.classIndex
+      );
+      if (token !== this.explanationToken) return;
+
+      console.log(`${modelName} explanation: ${explanation.contributions.length} features, ${explanation.permutations} permutations`);
+      renderExplanation(container, explanation, className);
+    } catch (error) {
+      if (token !== this.explanationToken) return;
+      console.error('Explanation error:', error);
+      container.innerHTML = `<h5>🧭 Why ${className}?</h5><div class="explanation-note">❌ Explanation failed: ${escapeHtml(error instanceof Error ? error.message : String(error))}</div>`;
+    }
+  }
+
+  // Monte Carlo over the entered ± uncertainties (uncertainty.ts); ONNX results only
+  private async estimateUncertainty(formData: FeatureValues | null, errors: FeatureValues, result: PredictionOutput | null) {
+    const container = document.getElementById('prediction-uncertainty');
+    if (!container) return;
+
+    const token = ++this.uncertaintyToken;
+    const modelName = this.currentModel;
+    const { manifest, featureSchema } = this.models[modelName] ?? {};
+
+    if (!formData || !result || result.source !== 'onnx' || !manifest || !featureSchema) {
+      container.classList.add('hidden');
+      container.innerHTML = '';
+      return;
+    }
+
+    container.classList.remove('hidden');
+    container.innerHTML = '<h5>🎲 Prediction Uncertainty</h5><div class="explanation-note">⏳ Sampling the inputs within their uncertainties...</div>';
+
+    try {
+      const summary = await monteCarloPrediction(
+        (data, rows) => this.inference.predictBatch(modelName, data, rows, BATCH_SIZE, () => {})
+          .results.then(outputs => outputs.map(output => output.probabilities)),
+        values => assembleFeatureVector(featureSchema, this.manualFeatureValues(modelName, values, errors).values).vector,
+        manifest.form.fields,
+        formData,
+        errors
+      );
+      if (token !== this.uncertaintyToken) return;
+
+      console.log(`${modelName} Monte Carlo: ${summary.draws} draws over ${summary.varied.join(', ')}`);
+      renderMonteCarlo(container, summary, classNames(manifest), manifest.form.fields);
+    } catch (error) {
+      if (token !== this.uncertaintyToken) return;
+      console.error('Monte Carlo error:', error);
+      container.innerHTML = `<h5>🎲 Prediction Uncertainty</h5><div class="explanation-note">❌ ${escapeHtml(error instanceof Error ? error.message : String(error))}</div>`;
+    }
+  }
+
+  // Transit model for the entered parameters (transitmodel.ts), over the folded light curve
+  // from the latest transit search if there is one
+  private plotTransitModel(formData: FeatureValues | null) {
+    const container = document.getElementById('prediction-transit');
+    if (!container) return;
+
+    const mapping = this.models[this.currentModel]?.manifest?.common_inputs ?? {};
+    const geometry = formData ? transitGeometry(physicalParameters(mapping, formData)) : null;
+    if (!geometry) {
+      container.classList.add('hidden');
+      container.innerHTML = '';
+      return;
+    }
+
+    container.classList.remove('hidden');
+    renderTransitPlot(container, geometry, this.foldedLightCurve());
+  }
+
+  // Rule-based false-positive checks (vetting.ts) shown next to the model's verdict
+  private vetManualPrediction(formData: FeatureValues | null, result: PredictionOutput | null) {
+    const container = document.getElementById('prediction-vetting');
+    if (!container) return;
+
+    const manifest = this.models[this.currentModel]?.manifest;
+    if (!formData || !result || !manifest) {
+      container.classList.add('hidden');
+      container.innerHTML = '';
+      return;
+    }
+
+    const checks = vetTransit(physicalParameters(manifest.common_inputs ?? {}, formData), this.foldedLightCurve());
+    container.classList.remove('hidden');
+    renderVetting(container, checks, classNames(manifest)[result.classIndex] ?? String(result.classIndex));
+  }
+
+  private foldedLightCurve(): FoldedLightCurve | null {
+    const search = this.formTransitSearch;
+    return search ? { lightCurve: search.lightCurve, epoch: search.epoch } : null;
+  }
+
+  private async runBatchPrediction() {
+    const fileInput = document.getElementById('batch-file') as HTMLInputElement;
+    const statusElement = document.getElementById('batch-status');
+    const resultsElement = document.getElementById('batch-results');
+    if (!fileInput || !statusElement || !resultsElement) return;
+
+    const file = fileInput.files?.[0];
+    if (!file) {
+      alert('Please choose a CSV or TSV catalog file first.');
+      return;
+    }
+
+    const modelName = this.currentModel;
+    const model = this.models[modelName];
+    if (!model.featureSchema || model.status !== 'ready') {
+      statusElement.textContent = `❌ ${modelName.toUpperCase()} batch classification is unavailable: ${model.error ?? 'ONNX model is not loaded'}`;
+      return;
+    }
+
+    try {
+      const table = parseCatalog(await file.text());
+      const matched = matchedColumns(model.featureSchema, table.columns);
+      if (matched.length === 0) {
+        throw new Error(`No columns in ${file.name} match the ${modelName.toUpperCase()} feature list`);
       }
+      console.log(`Batch: ${table.rows.length} rows, ${matched.length} matched columns`);
+
+      // The worker runs BATCH_SIZE rows per tensor and reports progress after each
+      const data = buildBatchMatrix(model.featureSchema, table.rows);
+      statusElement.textContent = `⏳ Classifying ${table.rows.length} rows...`;
+      const batch = this.inference.predictBatch(modelName, data, table.rows.length, BATCH_SIZE, (done, total) => {
+        statusElement.textContent = `⏳ Classified ${done} of ${total} rows...`;
+      });
+      this.setBatchRunning(batch.id);
+      const results = await batch.results.finally(() => this.setBatchRunning(null));
+
+      const rows: BatchRow[] = [];
+      const records: PredictionRecord[] = [];
+      results.forEach((result, index) => {
+        const label = catalogRowLabel(table.rows[index], index);
+        rows.push({ label, result });
+        records.push(this.buildRecord(modelName, label, catalogRowValues(table.rows[index]), result));
+      });
+      this.batchRecords = records;
+      document.getElementById('batch-export')?.classList.remove('hidden');
+
+      statusElement.textContent = `✅ ${rows.length} objects classified with the ${modelName.toUpperCase()} model ` +
+        `(${matched.length}/${model.featureSchema.feature_count} model columns found, the rest imputed)`;
+
+      // Fresh container so sort listeners don't pile up across uploads
+      const tableContainer = document.createElement('div');
+      resultsElement.replaceChildren(tableContainer);
+      new BatchResultsTable(tableContainer, rows, model.deploymentInfo?.output_classes ?? []).render();
+    } catch (error) {
+      if (error instanceof CancelledError) {
+        statusElement.textContent = '⏹️ Batch classification cancelled';
+        return;
+      }
+      console.error('Batch prediction error:', error);
+      statusElement.textContent = `❌ ${error instanceof Error ? error.message : 'Batch classification failed'}`;
     }
+  }
 
-    // Remove required-field class from all inputs
-    document.querySelectorAll('.required-field').forEach(el => el.classList.remove('required-field'));
+  // Swap the classify button for a cancel button while a batch runs in the worker
+  private setBatchRunning(id: number | null) {
+    this.activeBatchId = id;
+    document.getElementById('batch-predict')?.classList.toggle('hidden', id !== null);
+    document.getElementById('batch-cancel')?.classList.toggle('hidden', id === null);
+  }
+
+  private async runTransitSearch() {
+    const fileInput = document.getElementById('lightcurve-file') as HTMLInputElement;
+    const statusElement = document.getElementById('lightcurve-status');
+    const resultsElement = document.getElementById('lightcurve-results');
+    if (!fileInput || !statusElement || !resultsElement || this.transitSearchRunning) return;
+
+    const file = fileInput.files?.[0];
+    if (!file) {
+      alert('Please choose a light-curve CSV or FITS file first.');
+      return;
+    }
+
+    this.transitSearchRunning = true;
+    this.lastTransitSearch = null;
+    document.getElementById('lightcurve-fill')?.classList.add('hidden');
+    resultsElement.innerHTML = '';
+
+    try {
+      statusElement.textContent = `⏳ Reading ${file.name}...`;
+      const lightCurve = await parseLightCurve(file);
+      const detrended = detrend(lightCurve);
+      console.log(`Light curve: ${lightCurve.time.length} points, ${detrended.time.length} after detrending`);
+
+      const search = await searchTransitsInWorker(detrended, {}, fraction => {
+        statusElement.textContent = `⏳ Searching periods... ${Math.round(fraction * 100)}%`;
+      });
+      this.lastTransitSearch = search;
+
+      statusElement.textContent = `✅ Strongest signal: P = ${search.period.toFixed(4)} d, ` +
+        `depth ${Math.round(search.depth * 1e6)} ppm, SNR ${search.snr.toFixed(1)}`;
+      renderTransitSearch(resultsElement, search);
+      document.getElementById('lightcurve-fill')?.classList.remove('hidden');
+    } catch (error) {
+      console.error('Transit search error:', error);
+      statusElement.textContent = `❌ ${error instanceof Error ? error.message : 'Transit search failed'}`;
+    } finally {
+      this.transitSearchRunning = false;
+    }
+  }
+
+  // Put the detected period, duration, depth and SNR into the current mission's form through
+  // its common_inputs mapping; other entered values stay, and replaced fields lose their ±
+  private fillFromTransitSearch() {
+    const search = this.lastTransitSearch;
+    const modelName = this.currentModel;
+    const manifest = this.models[modelName]?.manifest;
+    if (!search || !manifest) return;
+
+    const { values: detected, mapped } = mapCommonInputs(manifest, transitParameters(search));
+    const filled = manifest.form.fields.filter(field => detected[field.name] !== undefined);
+    if (filled.length === 0) {
+      this.showNotification(`❌ The ${manifest.display_name} form has no period, duration or depth fields`);
+      return;
+    }
 
-    return formData;
+    const values = { ...peekMissionForm(modelName, manifest.form), ...detected };
+    const errors = peekFieldErrors(modelName, manifest.form);
+    filled.forEach(field => delete errors[field.name]);
+
+    // A catalog row describes some other signal than the one just detected
+    this.setImportedTarget(null);
+    this.fillManualForm(modelName, values, errors);
+    this.formTransitSearch = search;
+    this.checkFormPlausibility(modelName, values);
+    console.log(`Transit search filled ${mapped.join(', ')}`);
+    this.showNotification(`📈 Filled ${filled.map(field => field.label).join(', ')} from the light curve`);
   }
 
-  private convertToFeatureVector(formData: any, modelName: string): Float32Array {
-    // Convert real astronomical parameters to normalized feature vector
+  private buildRecord(modelName: string, object: string, values: FeatureValues, result: PredictionOutput): PredictionRecord {
     const model = this.models[modelName];
-    const featureCount = model.metadata?.features_count || 50;
-    const features = new Array(featureCount).fill(0);
-
-    // Normalization ranges based on typical values
-    const normalizationRanges = {
-      period: [0.5, 500],           // days
-      duration: [0.5, 24],          // hours  
-      depth: [10, 10000],           // ppm
-      planet_radius: [0.1, 10],     // Earth radii
-      star_radius: [0.1, 5],        // Solar radii
-      star_temp: [3000, 8000],      // Kelvin
-      star_mass: [0.1, 3],          // Solar masses
-      star_logg: [3.5, 5.0],        // log g
-      eccentricity: [0, 1],         // 0-1
-      snr: [1, 100]                 // signal to noise
-    };
+    const classNames = model.deploymentInfo?.output_classes ?? [];
+
+    const inputs: { [field: string]: number } = {};
+    for (const [field, value] of Object.entries(values)) {
+      if (typeof value === 'number' && Number.isFinite(value)) {
+        inputs[field] = value;
+      }
+    }
 
-    const normalize = (value: number, range: number[]) => {
-      return (value - range[0]) / (range[1] - range[0]);
+    return {
+      timestamp: new Date().toISOString(),
+      model: modelName,
+      object,
+      inputs,
+      metrics: model.metadata,
+      class_names: classNames,
+      predicted_class: classNames[result.classIndex] ?? String(result.classIndex),
+      probabilities: result.probabilities,
+      confidence: result.confidence,
+      source: result.source
     };
+  }
 
-    // Map form data to normalized features based on model type
-    if (modelName === 'kepler') {
-      features[0] = normalize(formData.orbital_period, normalizationRanges.period);
-      features[1] = normalize(formData.transit_duration, normalizationRanges.duration);
-      features[2] = normalize(formData.planet_radius, normalizationRanges.planet_radius);
-      features[3] = normalize(formData.star_radius, normalizationRanges.star_radius);
-      features[4] = normalize(formData.stellar_effective_temperature, normalizationRanges.star_temp);
-      features[5] = normalize(formData.transit_depth, normalizationRanges.depth);
-      features[6] = normalize(formData.eccentricity, normalizationRanges.eccentricity);
-      features[7] = normalize(formData.signal_to_noise, normalizationRanges.snr);
-    } else if (modelName === 'k2') {
-      features[0] = normalize(formData.period, normalizationRanges.period);
-      features[1] = normalize(formData.duration, normalizationRanges.duration);
-      features[2] = normalize(formData.depth, normalizationRanges.depth);
-      features[3] = normalize(formData.planet_radius_earth, normalizationRanges.planet_radius);
-      features[4] = normalize(formData.star_teff, normalizationRanges.star_temp);
-      features[5] = normalize(formData.star_logg, normalizationRanges.star_logg);
-      features[6] = normalize(formData.star_radius_solar, normalizationRanges.star_radius);
-    } else if (modelName === 'tess') {
-      features[0] = normalize(formData.orbital_period, normalizationRanges.period);
-      features[1] = normalize(formData.transit_duration, normalizationRanges.duration);
-      features[2] = normalize(formData.transit_depth, normalizationRanges.depth);
-      features[3] = normalize(formData.planet_radius, normalizationRanges.planet_radius);
-      features[4] = normalize(formData.star_radius, normalizationRanges.star_radius);
-      features[5] = normalize(formData.star_teff, normalizationRanges.star_temp);
-      features[6] = normalize(formData.star_mass, normalizationRanges.star_mass);
-      features[7] = normalize(formData.star_logg, normalizationRanges.star_logg);
+  private getFormData(modelName: string): { values: FeatureValues; errors: FeatureValues } | null {
+    const form = this.models[modelName]?.manifest?.form;
+    if (!form) return null;
+
+    document.querySelectorAll('.required-field').forEach(el => el.classList.remove('required-field'));
+
+    const result = readMissionForm(modelName, form);
+    if (!result.ok) {
+      // Highlight the offending field
+      const input = document.getElementById(fieldId(modelName, result.field)) as HTMLInputElement | null;
+      if (input) {
+        input.classList.add('required-field');
+        input.focus();
+      }
+      alert(`${result.message}. Fields marked with (*) are mandatory.`);
+      return null;
     }
 
-    // Fill remaining features with derived/synthetic values
-    for (let i = 8; i < featureCount; i++) {
-      // Create synthetic features based on the core parameters
-      const coreSum = features.slice(0, 8).reduce((a, b) => a + b, 0);
-      features[i] = Math.sin(i * coreSum * 0.1) * 0.1 + Math.cos(i * 0.3) * 0.05;
+    if (!this.checkFormPlausibility(modelName, result.values)) {
+      this.showNotification('❌ Fix the physically impossible inputs marked in the form');
+      return null;
     }
 
-    return new Float32Array(features);
+    return { values: result.values, errors: result.errors };
   }
 
-  private async predictFromData(data: Float32Array) {
-    // Try to use real ONNX model if available
-    const model = this.models[this.currentModel];
-    
-    if (model.session && model.scalerSession) {
-      try {
-        // Use real ONNX inference
-        console.log('Using ONNX model for prediction');
-        
-        // Create input tensor
-        const inputTensor = new ort.Tensor('float32', data, [1, data.length]);
-        
-        // Scale the data
-        const scaledResult = await model.scalerSession.run({ 'float_input': inputTensor });
-        
-        // Get scaled tensor (assuming output name is 'variable')
-        const scaledTensor = scaledResult['variable'] || Object.values(scaledResult)[0];
-        
-        // Make prediction
-        const prediction = await model.session.run({ 'float_input': scaledTensor });
-        
-        // Extract results (assuming standard output names)
-        const classProbs = prediction['probabilities'] || Object.values(prediction)[1];
-        const classIndex = prediction['label'] || Object.values(prediction)[0];
-        
-        if (classProbs && classProbs.data) {
-          const probabilities = Array.from(classProbs.data as Float32Array);
-          const predicted = Array.isArray(classIndex.data) ? classIndex.data[0] : classIndex.data;
-          
-          return {
-            classIndex: predicted,
-            probabilities,
-            confidence: Math.max(...probabilities) * 100
-          };
-        }
-      } catch (onnxError) {
-        console.warn('ONNX prediction failed, using fallback:', onnxError);
+  // Inline physical plausibility messages for the mission form; false when an error blocks prediction
+  private checkFormPlausibility(modelName: string, values: FeatureValues): boolean {
+    const mapping = this.models[modelName]?.manifest?.common_inputs ?? {};
+    const issues = checkPlausibility(physicalParameters(mapping, values));
+    return showPlausibility(modelName, issues, parameter => mapping[parameter]);
+  }
+
+  // Entered values plus the catalog columns they imply: the imported catalog row (lookup.ts),
+  // derived quantities the manifest maps (derived.ts) and the error columns of fields with
+  // a ± uncertainty (uncertainty.ts). Entered values win, and catalog values beat derived ones.
+  private manualFeatureValues(modelName: string, formData: FeatureValues, errors: FeatureValues): { values: FeatureValues; quantities: DerivedQuantity[] } {
+    const { manifest, featureSchema } = this.models[modelName];
+    const catalog = this.importedTarget?.mission === modelName ? this.importedTarget.values : {};
+    const quantities = deriveQuantities(physicalParameters(manifest?.common_inputs ?? {}, formData));
+    const derived = derivedFeatureValues(quantities, manifest?.derived_inputs ?? {}, { ...catalog, ...formData });
+    const errorColumns = featureSchema ? errorFeatureValues(featureSchema, errors) : {};
+    return { values: { ...catalog, ...errorColumns, ...derived, ...formData }, quantities };
+  }
+
+  // Out-of-distribution warning (ood.ts) for the supplied feature values, filled into the
+  // result card once the training reference is loaded; left empty when the mission ships
+  // neither a training table nor training statistics, or every input is well covered
+  private async checkTrainingCoverage(values: FeatureValues | null) {
+    const token = ++this.coverageToken;
+    const modelName = this.currentModel;
+    const { manifest, featureSchema } = this.models[modelName] ?? {};
+    if (!values || !(manifest?.training_features || manifest?.training_stats) || !featureSchema) return;
+
+    try {
+      this.trainingReferences[modelName] ??= loadTrainingReference(modelName, manifest, featureSchema);
+      const reference = await this.trainingReferences[modelName];
+      const container = document.getElementById('prediction-coverage');
+      if (token !== this.coverageToken || !container) return;
+
+      const { vector, provided } = assembleFeatureVector(featureSchema, values);
+      const report = checkCoverage(reference, vector, provided);
+      if (report.extrapolating) {
+        console.warn(`⚠️ ${modelName} inputs outside training coverage:`, report.features.filter(f => f.status !== 'typical').map(f => f.column));
       }
+
+      const label = (column: string) => {
+        const field = manifest.form.fields.find(f => featureSchema.inputs[f.name]?.column === column);
+        return field ? field.label : `<code>${column}</code>`;
+      };
+      container.innerHTML = renderCoverageWarning(report, label);
+    } catch (error) {
+      // A missing table only disables the check
+      console.error('Training coverage check failed:', error);
+      delete this.trainingReferences[modelName];
     }
+  }
+
+  private convertToFeatureVector(formData: FeatureValues, modelName: string): Float32Array {
+    const schema = this.models[modelName].featureSchema;
+    if (!schema) {
+      throw new Error(`Feature list for ${modelName} is not loaded`);
+    }
+
+    // Place each entered value at its catalog column; the rest get the training defaults
+    const { vector, provided, imputed } = assembleFeatureVector(schema, formData);
+    console.log(`${modelName} feature vector: ${provided.length} provided, ${imputed.length} imputed (${schema.default_strategy})`);
+
+    return vector;
+  }
+
+  private async predictFromData(data: Float32Array): Promise<PredictionOutput> {
+    const model = this.models[this.currentModel];
     
-    // Fallback to simulation if ONNX fails or not available
-    console.log('Using simulation for prediction');
-    
-    // Generate realistic predictions based on input and model
+    if (model.status === 'ready') {
+      console.log('Using ONNX model for prediction');
+      return this.inference.predict(this.currentModel, data);
+    }
+
+    // Simulated output only when the user explicitly asked for demo mode
+    if (this.demoMode) {
+      console.warn('⚠️ Demo mode: returning simulated output, not a model prediction');
+      return this.simulatePrediction(data);
+    }
+
+    throw new Error(model.error ?? `${this.currentModel.toUpperCase()} ONNX model is not loaded`);
+  }
+
+  // Demo mode only: deterministic pseudo-probabilities derived from the input, no model involved
+  private simulatePrediction(data: Float32Array): PredictionOutput {
+    // Pseudo-probabilities seeded from the input and model name
     const inputSum = Array.from(data).reduce((a, b) => a + Math.abs(b), 0);
     const seed = inputSum % 1000 + this.currentModel.charCodeAt(0);
     
@@ -974,7 +1550,14 @@ class ExoplanetClassifier {
     
     // Normalize to probabilities
     const total = candidateProb + confirmedProb + falsePositiveProb;
-    const probabilities = [candidateProb/total, confirmedProb/total, falsePositiveProb/total];
+    const simulated: { [label: string]: number } = {
+      Candidate: candidateProb / total,
+      Confirmed: confirmedProb / total,
+      False_Positive: falsePositiveProb / total
+    };
+    // In the mission's output order
+    const labels = this.models[this.currentModel]?.deploymentInfo?.output_classes ?? Object.keys(simulated);
+    const probabilities = labels.map(label => simulated[label] ?? 0);
     
     // Determine predicted class
     const classIndex = probabilities.indexOf(Math.max(...probabilities));
@@ -982,11 +1565,12 @@ class ExoplanetClassifier {
     return {
       classIndex,
       probabilities,
-      confidence: probabilities[classIndex] * 100
+      confidence: probabilities[classIndex] * 100,
+      source: 'demo'
     };
   }
 
-  private async showPredictionLoading() {
+  private showPredictionLoading() {
     const resultElement = document.getElementById('prediction-result');
     if (!resultElement) return;
 
@@ -1000,43 +1584,56 @@ class ExoplanetClassifier {
         </div>
       </div>
     `;
+  }
+
+  private displayPredictionError(message: string) {
+    const resultElement = document.getElementById('prediction-result');
+    if (!resultElement) return;
 
-    // Simulate processing time
-    await new Promise(resolve => setTimeout(resolve, 1500 + Math.random() * 1000));
+    resultElement.innerHTML = `
+      <div class="result-content">
+        <div class="prediction-icon">⚠️</div>
+        <h4>Prediction Unavailable</h4>
+        <div class="prediction-value" style="color: #dc3545;">No model output</div>
+        <div class="confidence-score">
+          <div style="font-size: 0.9rem; opacity: 0.9;">${escapeHtml(message)}</div>
+          <div style="margin-top: 1rem; font-size: 0.85rem; opacity: 0.7;">
+            Enable demo mode to see simulated output instead. It is not a model prediction.
+          </div>
+        </div>
+      </div>
+    `;
   }
 
-  private displayPredictionResult(result: any, inputDescription: string) {
+  private displayPredictionResult(result: PredictionOutput, inputDescription: string, derivedHtml = '') {
     const resultElement = document.getElementById('prediction-result');
     if (!resultElement) return;
 
-    // Correct class mappings based on actual model training
-    const classNames = ['🔍 Candidate Exoplanet', '✅ Confirmed Exoplanet', '❌ False Positive'];
-    const classDescriptions = [
-      'Requires further observation and verification',
-      'High confidence exoplanet detection', 
-      'Likely stellar activity or instrumental noise'
-    ];
-    const classColors = ['#ffd700', '#28a745', '#dc3545'];
-    const classEmojis = ['🔍', '✅', '❌'];
-    
-    const { classIndex, probabilities, confidence } = result;
+    const labels = this.models[this.currentModel]?.deploymentInfo?.output_classes ?? [];
+    const styles = result.probabilities.map((_, index) => classStyle(labels[index] ?? `Class ${index}`, index));
+    const { classIndex, probabilities, confidence, source } = result;
+    const sourceBadge = source === 'onnx'
+      ? '<div class="inference-badge inference-onnx">⚙️ ONNX Runtime inference</div>'
+      : '<div class="inference-badge inference-demo">🧪 DEMO MODE: simulated output, not a model prediction</div>';
 
     resultElement.innerHTML = `
       <div class="result-content">
-        <div class="prediction-icon">${classEmojis[classIndex]}</div>
-        <h4>AI Prediction Result</h4>
-        <div class="prediction-value" style="color: ${classColors[classIndex]};">
-          ${classNames[classIndex]}
+        <div class="prediction-icon">${styles[classIndex].emoji}</div>
+        <h4>${source === 'onnx' ? 'AI Prediction Result' : 'Simulated Result'}</h4>
+        ${sourceBadge}
+        <div id="prediction-coverage"></div>
+        <div class="prediction-value" style="color: ${styles[classIndex].color};">
+          ${styles[classIndex].emoji} ${escapeHtml(styles[classIndex].title)}
         </div>
         <div class="confidence-score">
           <div style="font-size: 1.2rem; font-weight: bold;">
             Confidence: ${confidence.toFixed(1)}%
           </div>
           <div style="margin-top: 0.5rem; font-size: 0.9rem; opacity: 0.8;">
-            ${classDescriptions[classIndex]}
+            ${styles[classIndex].description}
           </div>
           <div style="margin-top: 1rem;">
-            <small style="opacity: 0.8;">Input: ${inputDescription}</small>
+            <small style="opacity: 0.8;">Input: ${escapeHtml(inputDescription)}</small>
           </div>
         </div>
         
@@ -1045,101 +1642,49 @@ class ExoplanetClassifier {
           ${probabilities.map((prob: number, index: number) => `
             <div style="margin-bottom: 0.8rem;">
               <div style="display: flex; justify-content: space-between; margin-bottom: 0.3rem;">
-                <span style="font-size: 0.9rem;">${classNames[index]}</span>
+                <span style="font-size: 0.9rem;">${styles[index].emoji} ${escapeHtml(styles[index].title)}</span>
                 <span style="font-weight: bold;">${(prob * 100).toFixed(1)}%</span>
               </div>
               <div style="width: 100%; height: 8px; background: rgba(255,255,255,0.1); border-radius: 4px; overflow: hidden;">
-                <div style="width: ${prob * 100}%; height: 100%; background: ${classColors[index]}; transition: width 0.8s ease;"></div>
+                <div style="width: ${prob * 100}%; height: 100%; background: ${styles[index].color}; transition: width 0.8s ease;"></div>
               </div>
             </div>
           `).join('')}
         </div>
+
+        ${derivedHtml}
+
+        <div class="export-buttons">
+          <span>Export:</span>
+          <button class="export-btn" data-export="csv" data-scope="manual">CSV</button>
+          <button class="export-btn" data-export="json" data-scope="manual">JSON</button>
+          <button class="export-btn" data-export="votable" data-scope="manual">VOTable</button>
+        </div>
       </div>
     `;
   }
 }
 
-// Initialize the application
+// Initialize the application once the static markup is parsed; mission-specific
+// elements are generated by the classifier itself
 const initApp = () => {
   console.log('Initializing application...');
   createStarfield();
   setupScrollHeader();
-  
-  // Multiple attempts to ensure DOM is fully ready
-  let domCheckAttempts = 0;
-  const maxDOMAttempts = 50; // 5 seconds max
-  
-  const checkDOMReady = () => {
-    domCheckAttempts++;
-    console.log(`DOM check attempt ${domCheckAttempts}/${maxDOMAttempts}`);
-    
-    const requiredElements = [
-      document.querySelector('.model-option'),
-      document.getElementById('manual-predict'),
-      document.getElementById('show-confusion-matrix'),
-      document.querySelector('.auto-fill-btn')
-    ];
-    
-    const modelOptions = document.querySelectorAll('.model-option');
-    const allElementsReady = requiredElements.every(el => el !== null) && modelOptions.length >= 3;
-    
-    console.log('Required elements check:', {
-      modelOption: !!document.querySelector('.model-option'),
-      manualPredict: !!document.getElementById('manual-predict'),
-      confusionMatrix: !!document.getElementById('show-confusion-matrix'),
-      autoFillBtn: !!document.querySelector('.auto-fill-btn'),
-      modelOptionsCount: modelOptions.length
-    });
-    
-    if (allElementsReady) {
-      console.log('✅ DOM elements ready, creating ExoplanetClassifier...');
-      try {
-        new ExoplanetClassifier();
-      } catch (error) {
-        console.error('Failed to create ExoplanetClassifier:', error);
-        // Force retry one more time
-        setTimeout(() => {
-          try {
-            new ExoplanetClassifier();
-          } catch (retryError) {
-            console.error('Retry also failed:', retryError);
-          }
-        }, 1000);
-      }
-    } else if (domCheckAttempts < maxDOMAttempts) {
-      console.log(`DOM not ready yet, retrying in 100ms... (${domCheckAttempts}/${maxDOMAttempts})`);
-      setTimeout(checkDOMReady, 100);
-    } else {
-      console.error('❌ DOM elements not ready after maximum attempts, forcing initialization...');
-      try {
-        new ExoplanetClassifier();
-      } catch (error) {
-        console.error('Forced initialization failed:', error);
-      }
-    }
-  };
-  
-  checkDOMReady();
+
+  if (!document.getElementById('manual-predict')) {
+    console.error('❌ Page markup is missing #manual-predict, not starting the classifier');
+    return;
+  }
+  new ExoplanetClassifier();
 };
 
-// Try multiple initialization methods
 if (document.readyState === 'loading') {
   document.addEventListener('DOMContentLoaded', initApp);
 } else {
-  // DOM is already loaded
   initApp();
 }
 
-// Fallback with window load
-window.addEventListener('load', () => {
-  console.log('Window loaded - checking if app initialized');
-  // Check if app was already initialized
-  if (!document.querySelector('.model-option.selected')) {
-    console.log('App not initialized, running fallback...');
-    setTimeout(initApp, 200);
-  }
-});
-
 // Setup scroll-responsive header
 function setupScrollHeader() {
   let lastScrollTop = 0;
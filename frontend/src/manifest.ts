@@ -0,0 +1,117 @@
+// Per-mission model manifest.
+// `/models/<mission>/manifest.json` names the ONNX artifacts and their tensors, the feature
+// list, the class mapping, the evaluation metrics and the manual-input form, so none of it lives in code.
+
+export interface ModelManifest {
+  mission: string;
+  display_name: string;
+  icon: string;
+  dataset: string;
+  model_type: string;
+  model: {
+    path: string;
+    input: string;
+    outputs: { label: string; probabilities: string };
+  };
+  scaler: {
+    path: string;
+    input: string;
+    output: string;
+  };
+  features: string; // feature list file, see features.ts
+  class_mapping: { [index: string]: string };
+  metrics: ModelMetrics;
+  training_samples: number;
+  test_samples: number;
+  test_split?: TestSplit;
+  confusion?: string; // test-split confusion matrix file, see confusion.ts
+  catalog?: string; // archive snapshot for target lookup, see lookup.ts
+  training_features?: string; // training feature table for the out-of-distribution check, see ood.ts
+  training_stats?: string; // per-column training mean and spread (ColumnStats), the same check when no table ships
+  common_inputs?: { [parameter: string]: string }; // physical parameter -> form field or column, see compare.ts, plausibility.ts and derived.ts
+  derived_inputs?: { [quantity: string]: string }; // derived quantity -> catalog column, see derived.ts
+  form: MissionForm;
+}
+
+// Held-out rows shipped with the mission, for in-browser evaluation (evaluation.ts)
+export interface TestSplit {
+  features: string; // CSV of standardized catalog columns
+  scaler: string; // JSON { feature_names, mean, scale } that standardized them
+  labels: string; // CSV with one encoded label per row
+  label_classes: string[]; // class_mapping name for each encoded label value
+}
+
+// Per-column mean and standard deviation of a StandardScaler: the test split's (`test_split.scaler`)
+// or the model's own (`training_stats`)
+export interface ColumnStats {
+  feature_names: string[];
+  mean: number[];
+  scale: number[];
+}
+
+// Held-out test scores (0-1); precision, recall and F1 are support-weighted averages
+export interface ModelMetrics {
+  accuracy: number;
+  precision: number;
+  recall: number;
+  f1_score: number;
+  // Not reported by every training notebook
+  roc_auc?: number;
+  cv_mean?: number;
+  cv_std?: number;
+}
+
+// Manual-input form generated for the mission; field names are keys of the feature list `inputs`
+export interface MissionForm {
+  description: string;
+  fields: FormField[];
+  presets: FormPreset[];
+}
+
+export interface FormField {
+  name: string;
+  label: string;
+  required: boolean;
+  placeholder: number;
+  step: number;
+  min?: number;
+  max?: number;
+}
+
+// Example object for the quick-fill buttons
+export interface FormPreset {
+  id: string;
+  label: string;
+  expected: string;
+  values: { [field: string]: number };
+}
+
+export async function loadModelManifest(modelName: string): Promise<ModelManifest> {
+  const path = manifestUrl(modelName, 'manifest.json');
+  const response = await fetch(path);
+  if (!response.ok) {
+    throw new Error(`Model manifest not found at ${path} (HTTP ${response.status})`);
+  }
+
+  const manifest = await response.json() as ModelManifest;
+  if (!manifest.model?.path || !manifest.scaler?.path || !manifest.features || !manifest.metrics || !manifest.form) {
+    throw new Error(`Model manifest for ${modelName} is missing model, scaler, features, metrics or form`);
+  }
+  if (classNames(manifest).length === 0) {
+    throw new Error(`Model manifest for ${modelName} has an empty class mapping`);
+  }
+  return manifest;
+}
+
+// Resolve a file named in the manifest to its URL
+export function manifestUrl(modelName: string, file: string): string {
+  return `/models/${modelName}/${file}`;
+}
+
+// Class names ordered by output index
+export function classNames(manifest: ModelManifest): string[] {
+  return Object.keys(manifest.class_mapping)
+    .map(Number)
+    .sort((a, b) => a - b)
+    .map(index => manifest.class_mapping[index]);
+}
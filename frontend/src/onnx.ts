@@ -0,0 +1,195 @@
+// ONNX graph patching for classifiers exported with ZipMap.
+// skl2onnx/onnxmltools wrap class probabilities in a ZipMap node, which produces a
+// sequence of {class: probability} maps. onnxruntime-web cannot read non-tensor outputs,
+// so the ZipMap node is swapped for an Identity and the graph output retyped to the
+// [N, classes] float tensor ZipMap was built from. Column order is ZipMap's class label order.
+
+interface ProtoField {
+  field: number;
+  wire: number;
+  raw: Uint8Array; // key + payload, re-emitted unchanged when the field is kept
+  value: number | Uint8Array;
+}
+
+const WIRE_VARINT = 0;
+const WIRE_FIXED64 = 1;
+const WIRE_BYTES = 2;
+const WIRE_FIXED32 = 5;
+
+// ModelProto.graph, GraphProto.node/output, NodeProto and AttributeProto field numbers
+const MODEL_GRAPH = 7;
+const GRAPH_NODE = 1;
+const GRAPH_OUTPUT = 12;
+const NODE_INPUT = 1;
+const NODE_OUTPUT = 2;
+const NODE_OP_TYPE = 4;
+const NODE_ATTRIBUTE = 5;
+const ATTRIBUTE_NAME = 1;
+const ATTRIBUTE_INTS = 8;
+const ATTRIBUTE_STRINGS = 9;
+const VALUE_INFO_NAME = 1;
+const ELEM_FLOAT = 1;
+
+const decoder = new TextDecoder();
+const encoder = new TextEncoder();
+
+// Returns the patched model bytes, or null when the model has no ZipMap output
+export function stripZipMap(model: Uint8Array): Uint8Array | null {
+  const modelFields = parseMessage(model);
+  const graphField = modelFields.find(f => f.field === MODEL_GRAPH);
+  if (!graphField) return null;
+
+  const graphFields = parseMessage(graphField.value as Uint8Array);
+  let patched = false;
+
+  const zipMaps = new Map<string, number>(); // ZipMap output name -> class count
+  const newGraph = graphFields.map(field => {
+    if (field.field !== GRAPH_NODE) return field.raw;
+
+    const node = parseMessage(field.value as Uint8Array);
+    if (stringValue(node, NODE_OP_TYPE) !== 'ZipMap') return field.raw;
+
+    const input = stringValue(node, NODE_INPUT);
+    const output = stringValue(node, NODE_OUTPUT);
+    if (!input || !output) return field.raw;
+
+    zipMaps.set(output, zipMapClassCount(node));
+    patched = true;
+    return encodeBytes(GRAPH_NODE, concat([
+      encodeString(NODE_INPUT, input),
+      encodeString(NODE_OUTPUT, output),
+      encodeString(3, `${output}_decoded`),
+      encodeString(NODE_OP_TYPE, 'Identity')
+    ]));
+  });
+  if (!patched) return null;
+
+  // Retype the graph outputs ZipMap used to feed
+  const retypedGraph = newGraph.map((raw, index) => {
+    const field = graphFields[index];
+    if (field.field !== GRAPH_OUTPUT) return raw;
+    const name = stringValue(parseMessage(field.value as Uint8Array), VALUE_INFO_NAME);
+    return name && zipMaps.has(name) ? encodeBytes(GRAPH_OUTPUT, tensorValueInfo(name, zipMaps.get(name)!)) : raw;
+  });
+
+  return concat(modelFields.map(field =>
+    field.field === MODEL_GRAPH ? encodeBytes(MODEL_GRAPH, concat(retypedGraph)) : field.raw
+  ));
+}
+
+function zipMapClassCount(node: ProtoField[]): number {
+  for (const field of node.filter(f => f.field === NODE_ATTRIBUTE)) {
+    const attribute = parseMessage(field.value as Uint8Array);
+    const name = stringValue(attribute, ATTRIBUTE_NAME);
+    if (name === 'classlabels_strings') {
+      return attribute.filter(f => f.field === ATTRIBUTE_STRINGS).length;
+    }
+    if (name === 'classlabels_int64s') {
+      // Packed or unpacked repeated int64
+      return attribute
+        .filter(f => f.field === ATTRIBUTE_INTS)
+        .reduce((count, f) => count + (f.wire === WIRE_BYTES ? countVarints(f.value as Uint8Array) : 1), 0);
+    }
+  }
+  return 0;
+}
+
+// ValueInfoProto for a float tensor of shape [N, classes]
+function tensorValueInfo(name: string, classes: number): Uint8Array {
+  const batchDim = encodeString(2, 'N');
+  const classDim = classes > 0 ? encodeVarintField(1, classes) : encodeString(2, 'classes');
+  const shape = concat([encodeBytes(1, batchDim), encodeBytes(1, classDim)]);
+  const tensorType = concat([encodeVarintField(1, ELEM_FLOAT), encodeBytes(2, shape)]);
+  return concat([encodeString(VALUE_INFO_NAME, name), encodeBytes(2, encodeBytes(1, tensorType))]);
+}
+
+// ---------- Minimal protobuf reader/writer ----------
+
+function parseMessage(bytes: Uint8Array): ProtoField[] {
+  const fields: ProtoField[] = [];
+  let offset = 0;
+
+  while (offset < bytes.length) {
+    const start = offset;
+    const [key, afterKey] = readVarint(bytes, offset);
+    const field = Number(key >> 3n);
+    const wire = Number(key & 7n);
+    offset = afterKey;
+
+    let value: number | Uint8Array;
+    if (wire === WIRE_VARINT) {
+      const [v, next] = readVarint(bytes, offset);
+      value = Number(v);
+      offset = next;
+    } else if (wire === WIRE_BYTES) {
+      const [length, next] = readVarint(bytes, offset);
+      value = bytes.subarray(next, next + Number(length));
+      offset = next + Number(length);
+    } else if (wire === WIRE_FIXED64) {
+      value = bytes.subarray(offset, offset + 8);
+      offset += 8;
+    } else if (wire === WIRE_FIXED32) {
+      value = bytes.subarray(offset, offset + 4);
+      offset += 4;
+    } else {
+      throw new Error(`Unsupported protobuf wire type ${wire} in ONNX model`);
+    }
+
+    fields.push({ field, wire, raw: bytes.subarray(start, offset), value });
+  }
+  return fields;
+}
+
+function readVarint(bytes: Uint8Array, offset: number): [bigint, number] {
+  let result = 0n;
+  let shift = 0n;
+  while (offset < bytes.length) {
+    const byte = bytes[offset++];
+    result |= BigInt(byte & 0x7f) << shift;
+    if (byte < 0x80) return [result, offset];
+    shift += 7n;
+  }
+  throw new Error('Truncated varint in ONNX model');
+}
+
+function countVarints(bytes: Uint8Array): number {
+  return bytes.reduce((count, byte) => count + (byte < 0x80 ? 1 : 0), 0);
+}
+
+function stringValue(fields: ProtoField[], field: number): string | null {
+  const match = fields.find(f => f.field === field && f.wire === WIRE_BYTES);
+  return match ? decoder.decode(match.value as Uint8Array) : null;
+}
+
+function encodeVarint(value: number): number[] {
+  const bytes: number[] = [];
+  let v = value;
+  while (v >= 0x80) {
+    bytes.push((v % 0x80) | 0x80);
+    v = Math.floor(v / 0x80);
+  }
+  bytes.push(v);
+  return bytes;
+}
+
+function encodeVarintField(field: number, value: number): Uint8Array {
+  return new Uint8Array([...encodeVarint((field << 3) | WIRE_VARINT), ...encodeVarint(value)]);
+}
+
+function encodeBytes(field: number, payload: Uint8Array): Uint8Array {
+  return concat([new Uint8Array([...encodeVarint((field << 3) | WIRE_BYTES), ...encodeVarint(payload.length)]), payload]);
+}
+
+function encodeString(field: number, text: string): Uint8Array {
+  return encodeBytes(field, encoder.encode(text));
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
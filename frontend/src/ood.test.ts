@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { CatalogTable } from './batch';
+import { FeatureSchema } from './features';
+import { buildTrainingReference, checkCoverage, renderCoverageWarning, statsReference } from './ood';
+
+// Two strongly correlated training columns (b ≈ 2a) plus one the table does not carry
+const schema: FeatureSchema = {
+  mission: 'test',
+  source: 'synthetic',
+  feature_count: 3,
+  feature_names: ['a', 'b', 'c'],
+  default_strategy: 'zero',
+  defaults: { a: 0, b: 0, c: 0 },
+  inputs: {}
+};
+
+const table: CatalogTable = {
+  columns: ['a', 'b'],
+  rows: Array.from({ length: 1000 }, (_, i) => ({ a: String(i + 1), b: String(2 * (i + 1) + (i % 3)) })),
+  delimiter: ','
+};
+
+const reference = buildTrainingReference(schema, table);
+const check = (a: number, b: number, provided = ['a', 'b']) => checkCoverage(reference, Float32Array.from([a, b, 0]), provided);
+
+describe('checkCoverage', () => {
+  it('only compares columns present in the training table', () => {
+    expect(reference.columns).toEqual(['a', 'b']);
+    expect(reference.positions).toEqual([0, 1]);
+  });
+
+  it('accepts inputs that look like a training row', () => {
+    const report = check(500, 1001);
+
+    expect(report.features.map(f => f.status)).toEqual(['typical', 'typical']);
+    expect(report.features[0].percentile).toBeCloseTo(49.9);
+    expect(report.distance).toBeLessThan(report.threshold!);
+    expect(report.extrapolating).toBe(false);
+  });
+
+  it('flags values beyond the training range', () => {
+    const report = check(5000, 1001);
+
+    expect(report.features[0]).toMatchObject({ column: 'a', status: 'outside', min: 1, max: 1000 });
+    expect(report.extrapolating).toBe(true);
+  });
+
+  it('flags values in the far tails without calling them extrapolation', () => {
+    const report = check(999.5, 1999, ['a']);
+
+    expect(report.features).toHaveLength(1);
+    expect(report.features[0].status).toBe('tail');
+    expect(report.distance).toBeNull();
+    expect(report.extrapolating).toBe(false);
+  });
+
+  it('catches combinations the training rows never show', () => {
+    // Each value is typical on its own, but b is far from 2a
+    const report = check(100, 1900);
+
+    expect(report.features.map(f => f.status)).toEqual(['typical', 'typical']);
+    expect(report.distance).toBeGreaterThan(report.threshold!);
+    expect(report.extrapolating).toBe(true);
+  });
+});
+
+describe('statsReference', () => {
+  // Scaler statistics for a and c; b has none
+  const stats = statsReference(schema, { feature_names: ['c', 'a'], mean: [0, 100], scale: [1, 10] });
+  const statsCheck = (a: number) => checkCoverage(stats, Float32Array.from([a, 0, 0]), ['a', 'b']);
+
+  it('checks supplied columns on z-scores without a joint distance', () => {
+    expect(stats.columns).toEqual(['a', 'c']);
+    expect(stats.rows).toBeNull();
+    expect(statsCheck(110).features).toEqual([
+      { column: 'a', value: 110, zScore: 1, percentile: null, min: null, max: null, status: 'typical' }
+    ]);
+    expect(statsCheck(140).features[0].status).toBe('tail');
+    expect(statsCheck(110).distance).toBeNull();
+  });
+
+  it('calls values far from the training mean extrapolation', () => {
+    const report = statsCheck(40);
+    const html = renderCoverageWarning(report, column => column);
+
+    expect(report.extrapolating).toBe(true);
+    expect(html).toContain('6.0 standard deviations below the training mean');
+    expect(html).toContain('no training rows ship with this mission');
+  });
+});
+
+describe('renderCoverageWarning', () => {
+  const label = (column: string) => column.toUpperCase();
+
+  it('renders nothing for well-covered inputs', () => {
+    expect(renderCoverageWarning(check(500, 1001), label)).toBe('');
+  });
+
+  it('states the share of training rows beyond a tail value', () => {
+    expect(renderCoverageWarning(check(999.5, 0, ['a']), label)).toContain('only 0.10% of the training rows are higher');
+    expect(renderCoverageWarning(check(1.5, 0, ['a']), label)).toContain('only 0.10% of the training rows are lower');
+  });
+
+  it('gives the training range for values outside it', () => {
+    const html = renderCoverageWarning(check(5000, 1001), label);
+
+    expect(html).toContain('Model is extrapolating');
+    expect(html).toContain('outside the training range 1 – 1000');
+  });
+});
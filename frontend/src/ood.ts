@@ -0,0 +1,247 @@
+import { CatalogTable, catalogRowValues, parseCatalog } from './batch';
+import { assembleFeatureVector, FeatureSchema } from './features';
+import { ColumnStats, manifestUrl, ModelManifest } from './manifest';
+
+// Out-of-distribution check against the mission's training feature table. Only the
+// columns an input actually supplies are compared (imputed defaults are in-distribution
+// by construction): each against the training percentiles, and jointly by Mahalanobis
+// distance in standardized space, judged against the same distance over the training rows.
+// Missions that ship only their scaler's mean and standard deviation (manifest
+// `training_stats`) get the per-column check on z-scores and no joint distance.
+
+export interface TrainingReference {
+  columns: string[]; // feature columns the reference covers, in feature-list order
+  positions: number[]; // their index in the feature vector
+  mean: Float64Array;
+  std: Float64Array;
+  rows: TrainingRows | null; // null when only the column statistics ship
+}
+
+export interface TrainingRows {
+  sorted: Float64Array[]; // training values per column, ascending
+  standardized: Float64Array[]; // per training row, z-scores over `columns`
+  correlation: Float64Array[]; // columns x columns
+}
+
+export interface FeatureCoverage {
+  column: string;
+  value: number;
+  zScore: number; // standard deviations from the training mean
+  percentile: number | null; // share of training rows below the value, 0-100; null without the rows
+  min: number | null;
+  max: number | null;
+  status: 'typical' | 'tail' | 'outside';
+}
+
+export interface CoverageReport {
+  features: FeatureCoverage[];
+  distance: number | null; // Mahalanobis distance; null with fewer than two checked columns
+  threshold: number | null; // training distance at DISTANCE_QUANTILE
+  extrapolating: boolean;
+}
+
+// Percentiles beyond which a value is in the training tail
+const TAIL_PERCENTILE = 0.5;
+// Training rows closer than this quantile count as covered
+const DISTANCE_QUANTILE = 0.99;
+// Added to the correlation diagonal so near-duplicate columns (value and its errors) stay invertible
+const RIDGE = 1e-3;
+// Without the rows: |z| beyond which a value is in the tail, and beyond which the model is
+// taken to extrapolate. Catalog columns are heavy-tailed, so these are deliberately wide.
+const TAIL_Z = 3;
+const OUTSIDE_Z = 5;
+
+export async function loadTrainingReference(modelName: string, manifest: ModelManifest, schema: FeatureSchema): Promise<TrainingReference> {
+  const file = manifest.training_features ?? manifest.training_stats;
+  if (!file) {
+    throw new Error(`No training feature table or statistics ship with the ${manifest.display_name} model`);
+  }
+  const path = manifestUrl(modelName, file);
+  const response = await fetch(path);
+  if (!response.ok) {
+    throw new Error(`Training reference not found at ${path} (HTTP ${response.status})`);
+  }
+  return manifest.training_features
+    ? buildTrainingReference(schema, parseCatalog(await response.text()))
+    : statsReference(schema, await response.json() as ColumnStats);
+}
+
+export function statsReference(schema: FeatureSchema, stats: ColumnStats): TrainingReference {
+  const positions = schema.feature_names
+    .map((column, index) => stats.feature_names.includes(column) ? index : -1)
+    .filter(index => index >= 0);
+  const columns = positions.map(index => schema.feature_names[index]);
+  const at = columns.map(column => stats.feature_names.indexOf(column));
+
+  return {
+    columns,
+    positions,
+    mean: Float64Array.from(at, i => stats.mean[i]),
+    std: Float64Array.from(at, i => stats.scale[i] || 1),
+    rows: null
+  };
+}
+
+// Rows as the model saw them: missing cells take the schema defaults, like the training imputer
+export function buildTrainingReference(schema: FeatureSchema, table: CatalogTable): TrainingReference {
+  const positions = schema.feature_names
+    .map((column, index) => table.columns.includes(column) ? index : -1)
+    .filter(index => index >= 0);
+  const columns = positions.map(index => schema.feature_names[index]);
+  const vectors = table.rows.map(row => assembleFeatureVector(schema, catalogRowValues(row)).vector);
+  const n = vectors.length;
+
+  const mean = new Float64Array(columns.length);
+  const std = new Float64Array(columns.length);
+  const sorted = positions.map((position, c) => {
+    const values = Float64Array.from(vectors, vector => vector[position]);
+    mean[c] = values.reduce((a, b) => a + b, 0) / n;
+    std[c] = Math.sqrt(values.reduce((a, b) => a + (b - mean[c]) ** 2, 0) / n) || 1;
+    return values.sort();
+  });
+
+  const standardized = vectors.map(vector => Float64Array.from(positions, (position, c) => (vector[position] - mean[c]) / std[c]));
+  const correlation = columns.map(() => new Float64Array(columns.length));
+  for (const z of standardized) {
+    for (let i = 0; i < columns.length; i++) {
+      for (let j = 0; j <= i; j++) correlation[i][j] += z[i] * z[j] / n;
+    }
+  }
+  for (let i = 0; i < columns.length; i++) {
+    for (let j = 0; j < i; j++) correlation[j][i] = correlation[i][j];
+  }
+
+  return { columns, positions, mean, std, rows: { sorted, standardized, correlation } };
+}
+
+export function checkCoverage(reference: TrainingReference, vector: Float32Array, provided: string[]): CoverageReport {
+  const checked = reference.columns.map((_, c) => c).filter(c => provided.includes(reference.columns[c]));
+
+  const { rows } = reference;
+
+  const features = checked.map((c): FeatureCoverage => {
+    const value = vector[reference.positions[c]];
+    const zScore = (value - reference.mean[c]) / reference.std[c];
+    if (!rows) {
+      const status = Math.abs(zScore) > OUTSIDE_Z ? 'outside' : Math.abs(zScore) > TAIL_Z ? 'tail' : 'typical';
+      return { column: reference.columns[c], value, zScore, percentile: null, min: null, max: null, status };
+    }
+
+    const values = rows.sorted[c];
+    const percentile = lowerBound(values, value) / values.length * 100;
+    const min = values[0];
+    const max = values[values.length - 1];
+    const status = value < min || value > max
+      ? 'outside'
+      : percentile < TAIL_PERCENTILE || percentile > 100 - TAIL_PERCENTILE ? 'tail' : 'typical';
+    return { column: reference.columns[c], value, zScore, percentile, min, max, status };
+  });
+
+  let distance: number | null = null;
+  let threshold: number | null = null;
+  if (rows && checked.length >= 2) {
+    const inverse = invert(checked.map(i => Float64Array.from(checked, j => rows.correlation[i][j] + (i === j ? RIDGE : 0))));
+    const mahalanobis = (z: ArrayLike<number>) => {
+      let sum = 0;
+      for (let i = 0; i < z.length; i++) {
+        for (let j = 0; j < z.length; j++) sum += z[i] * inverse[i][j] * z[j];
+      }
+      return Math.sqrt(Math.max(0, sum));
+    };
+
+    const training = rows.standardized
+      .map(z => mahalanobis(checked.map(c => z[c])))
+      .sort((a, b) => a - b);
+    threshold = training[Math.min(training.length - 1, Math.floor(DISTANCE_QUANTILE * training.length))];
+    distance = mahalanobis(checked.map(c => (vector[reference.positions[c]] - reference.mean[c]) / reference.std[c]));
+  }
+
+  return {
+    features,
+    distance,
+    threshold,
+    extrapolating: features.some(f => f.status === 'outside') || (distance !== null && distance > threshold!)
+  };
+}
+
+// Index of the first value >= target in an ascending array
+function lowerBound(values: Float64Array, target: number): number {
+  let lo = 0;
+  let hi = values.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (values[mid] < target) lo = mid + 1; else hi = mid;
+  }
+  return lo;
+}
+
+// Gauss-Jordan inverse of a symmetric positive-definite matrix
+function invert(matrix: Float64Array[]): Float64Array[] {
+  const n = matrix.length;
+  const a = matrix.map((row, i) => {
+    const augmented = new Float64Array(2 * n);
+    augmented.set(row);
+    augmented[n + i] = 1;
+    return augmented;
+  });
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+
+    const scale = a[col][col];
+    for (let k = 0; k < 2 * n; k++) a[col][k] /= scale;
+    for (let row = 0; row < n; row++) {
+      if (row === col) continue;
+      const factor = a[row][col];
+      if (factor === 0) continue;
+      for (let k = 0; k < 2 * n; k++) a[row][k] -= factor * a[col][k];
+    }
+  }
+  return a.map(row => row.slice(n));
+}
+
+// Warning block for the result card; empty when every checked input is well covered
+export function renderCoverageWarning(report: CoverageReport, label: (column: string) => string): string {
+  const flagged = report.features.filter(f => f.status !== 'typical');
+  if (!report.extrapolating && flagged.length === 0) return '';
+
+  const format = (value: number) => String(+value.toPrecision(4));
+  return `
+    <div class="ood-warning ${report.extrapolating ? 'ood-extrapolating' : ''}">
+      <strong>${report.extrapolating ? '⚠️ Model is extrapolating' : '⚠️ Unusual inputs'}</strong>:
+      ${report.extrapolating
+        ? 'these inputs fall outside the training data, so the prediction is unreliable.'
+        : 'some inputs lie in the far tails of the training data.'}
+      ${flagged.length > 0 ? `
+        <ul>
+          ${flagged.map(f => `
+            <li class="ood-${f.status}">
+              <strong>${label(f.column)}</strong> = ${format(f.value)}:
+              ${f.percentile === null
+                ? `${Math.abs(f.zScore).toFixed(1)} standard deviations ${f.zScore < 0 ? 'below' : 'above'} the training mean`
+                : f.status === 'outside'
+                  ? `outside the training range ${format(f.min!)} – ${format(f.max!)}`
+                  : f.percentile < 50
+                    ? `only ${f.percentile.toFixed(2)}% of the training rows are lower`
+                    : `only ${(100 - f.percentile).toFixed(2)}% of the training rows are higher`}
+            </li>
+          `).join('')}
+        </ul>
+      ` : ''}
+      ${report.distance !== null ? `
+        <div class="explanation-note">
+          Mahalanobis distance ${report.distance.toFixed(1)} over ${report.features.length} supplied features;
+          ${Math.round(DISTANCE_QUANTILE * 100)}% of training rows lie within ${report.threshold!.toFixed(1)}.
+        </div>
+      ` : report.features.some(f => f.percentile === null) ? `
+        <div class="explanation-note">
+          Compared with the training mean and standard deviation only: no training rows ship with this mission, so unusual combinations of inputs go unnoticed.
+        </div>
+      ` : ''}
+    </div>
+  `;
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { decodePermalink, encodePermalink } from './permalink';
+
+describe('permalink', () => {
+  it('round-trips the mission, values, uncertainties and run flag', () => {
+    const state = {
+      mission: 'tess',
+      values: { orbital_period: 12.4, transit_depth: 1500 },
+      errors: { orbital_period: 0.001 },
+      run: true
+    };
+    const hash = encodePermalink(state);
+
+    expect(hash).toBe('#model=tess&orbital_period=12.4&transit_depth=1500&orbital_period.err=0.001&run=1');
+    expect(decodePermalink(hash)).toEqual(state);
+  });
+
+  it('leaves out missing and non-finite values', () => {
+    const hash = encodePermalink({
+      mission: 'kepler',
+      values: { koi_period: NaN, koi_depth: Infinity, koi_prad: 2 },
+      errors: { koi_prad: NaN },
+      run: false
+    });
+
+    expect(hash).toBe('#model=kepler&koi_prad=2');
+  });
+
+  it('drops non-numeric parameters when decoding', () => {
+    expect(decodePermalink('#model=k2&pl_orbper=abc&pl_rade=&pl_trandep=300&run=0')).toEqual({
+      mission: 'k2',
+      values: { pl_trandep: 300 },
+      errors: {},
+      run: false
+    });
+  });
+
+  it('returns null for hashes without a mission', () => {
+    expect(decodePermalink('')).toBeNull();
+    expect(decodePermalink('#section-results')).toBeNull();
+  });
+});
@@ -0,0 +1,50 @@
+import { FeatureValues } from './features';
+
+// Shareable links: the selected mission and the manual form live in the URL hash,
+// e.g. #model=tess&orbital_period=12.4&orbital_period.err=0.001&run=1
+// Field values use the manifest's form field names; `.err` carries a ± uncertainty and
+// `run=1` asks the app to predict as soon as the link is opened.
+
+export interface PermalinkState {
+  mission: string;
+  values: FeatureValues;
+  errors: FeatureValues;
+  run: boolean;
+}
+
+const ERROR_SUFFIX = '.err';
+
+export function encodePermalink(state: PermalinkState): string {
+  const params = new URLSearchParams({ model: state.mission });
+  for (const [field, value] of Object.entries(state.values)) {
+    if (value !== null && value !== undefined && Number.isFinite(value)) params.set(field, String(value));
+  }
+  for (const [field, error] of Object.entries(state.errors)) {
+    if (error !== null && error !== undefined && Number.isFinite(error)) params.set(`${field}${ERROR_SUFFIX}`, String(error));
+  }
+  if (state.run) params.set('run', '1');
+  return `#${params.toString()}`;
+}
+
+// Null when the hash is not a permalink; unknown or non-numeric parameters are dropped
+export function decodePermalink(hash: string): PermalinkState | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const mission = params.get('model');
+  if (!mission) return null;
+
+  const values: FeatureValues = {};
+  const errors: FeatureValues = {};
+  for (const [key, text] of params) {
+    if (key === 'model' || key === 'run') continue;
+    const value = Number(text);
+    if (text.trim() === '' || !Number.isFinite(value)) continue;
+
+    if (key.endsWith(ERROR_SUFFIX)) {
+      errors[key.slice(0, -ERROR_SUFFIX.length)] = value;
+    } else {
+      values[key] = value;
+    }
+  }
+
+  return { mission, values, errors, run: params.get('run') === '1' };
+}
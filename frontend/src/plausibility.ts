@@ -0,0 +1,142 @@
+import { EARTH_TO_SOLAR_RADIUS, PhysicalParameters, SOLAR_LOGG, stellarDensity } from './derived';
+import { fieldId } from './forms';
+
+// Physical plausibility checks on entered parameters, before they reach a model.
+// Checks work on physical parameters (period, depth, ...); a manifest's `common_inputs`
+// says which of its form fields carries each one. Errors describe impossible input and
+// block the prediction; warnings flag unusual input, which the model may still classify.
+
+export interface PlausibilityIssue {
+  severity: 'error' | 'warning';
+  parameters: string[]; // physical parameters involved; the first one is where the message shows
+  message: string;
+}
+
+interface ParameterRange {
+  label: string;
+  unit: string;
+  lower: 'positive' | 'non-negative' | 'any'; // values impossible below
+  max?: number; // impossible above
+  typical: [number, number]; // warn outside
+  low?: string; // why a value below the typical range is suspicious
+  high?: string;
+}
+
+const RANGES: { [parameter: string]: ParameterRange } = {
+  period: { label: 'Orbital period', unit: 'days', lower: 'positive', typical: [0.2, 1000], low: 'shorter than any known ultra-short-period planet', high: 'too long for the surveys to catch repeat transits' },
+  duration: { label: 'Transit duration', unit: 'h', lower: 'positive', typical: [0.2, 24] },
+  depth: { label: 'Transit depth', unit: 'ppm', lower: 'positive', max: 1e6, typical: [10, 50000], low: 'below what the surveys detect', high: 'deeper than 5% usually means an eclipsing binary' },
+  planet_radius: { label: 'Planet radius', unit: 'Earth radii', lower: 'positive', typical: [0.3, 25], low: 'smaller than Mercury', high: 'larger than ~2 Jupiter radii, likely a star' },
+  star_radius: { label: 'Star radius', unit: 'Solar radii', lower: 'positive', typical: [0.08, 100] },
+  star_teff: { label: 'Star Teff', unit: 'K', lower: 'positive', typical: [2300, 50000] },
+  star_mass: { label: 'Star mass', unit: 'Solar masses', lower: 'positive', typical: [0.08, 20], low: 'below the hydrogen-burning limit' },
+  star_logg: { label: 'Star log g', unit: 'cgs', lower: 'any', typical: [0, 5.5] },
+  eccentricity: { label: 'Eccentricity', unit: '', lower: 'non-negative', max: 0.999, typical: [0, 0.9], high: 'extremely eccentric for a transiting planet' },
+  snr: { label: 'Signal to noise', unit: '', lower: 'non-negative', typical: [7.1, 1e5], low: 'below the 7.1σ detection threshold' }
+};
+
+// Central transit duration of a circular orbit around the Sun at P = 1 yr, in hours
+const SOLAR_DURATION_AT_ONE_YEAR = 13;
+
+export function checkPlausibility(p: PhysicalParameters): PlausibilityIssue[] {
+  const issues: PlausibilityIssue[] = [];
+  const error = (parameters: string[], message: string) => issues.push({ severity: 'error', parameters, message });
+  const warning = (parameters: string[], message: string) => issues.push({ severity: 'warning', parameters, message });
+
+  for (const [parameter, value] of Object.entries(p)) {
+    const range = RANGES[parameter];
+    if (!range) continue;
+
+    if (range.lower === 'positive' && value <= 0) {
+      error([parameter], `${range.label} must be greater than 0`);
+    } else if (range.lower === 'non-negative' && value < 0) {
+      error([parameter], `${range.label} cannot be negative`);
+    } else if (range.max !== undefined && value > range.max) {
+      error([parameter], `${range.label} cannot exceed ${range.max}${unit(range)}`);
+    } else if (value < range.typical[0]) {
+      warning([parameter], `${range.label} of ${value}${unit(range)} is below the usual ${range.typical[0]}${range.low ? `: ${range.low}` : ''}`);
+    } else if (value > range.typical[1]) {
+      warning([parameter], `${range.label} of ${value}${unit(range)} is above the usual ${range.typical[1]}${range.high ? `: ${range.high}` : ''}`);
+    }
+  }
+
+  // Skip cross-field checks on values that are already impossible on their own
+  const usable = (parameter: string) => p[parameter] !== undefined && !issues.some(i => i.severity === 'error' && i.parameters[0] === parameter);
+
+  if (usable('duration') && usable('period')) {
+    const periodHours = p.period * 24;
+    if (p.duration >= periodHours) {
+      error(['duration', 'period'], `Transit duration (${p.duration} h) cannot be longer than the orbit (${periodHours.toFixed(1)} h)`);
+    } else if (p.duration > periodHours / 4) {
+      warning(['duration', 'period'], `Transit lasts ${(p.duration / periodHours * 100).toFixed(0)}% of the orbit, typical of contact binaries rather than planets`);
+    }
+  }
+
+  // Stellar density from mass and radius, or from log g and radius
+  const density = usable('star_radius') && (usable('star_mass') || usable('star_logg')) ? stellarDensity(p) : null;
+
+  if (density !== null && usable('duration') && usable('period')) {
+    // Maximum (central, circular) duration scales as P^(1/3) rho^(-1/3)
+    const expected = SOLAR_DURATION_AT_ONE_YEAR * (p.period / 365.25) ** (1 / 3) * density ** (-1 / 3);
+    if (p.duration > expected * 2) {
+      warning(['duration', 'period'], `Transit duration ${p.duration} h is ${(p.duration / expected).toFixed(1)}× the ${expected.toFixed(1)} h a central transit lasts for this period and stellar density (${density.toFixed(2)} ρ☉)`);
+    }
+  }
+
+  if (usable('depth') && usable('planet_radius') && usable('star_radius')) {
+    const ratio = p.planet_radius * EARTH_TO_SOLAR_RADIUS / p.star_radius;
+    const expected = ratio ** 2 * 1e6;
+    if (ratio >= 1) {
+      warning(['planet_radius', 'star_radius'], `Planet radius exceeds the stellar radius (Rp/Rs = ${ratio.toFixed(2)}), so the companion is likely a star`);
+    } else if (p.depth > expected * 3 || p.depth < expected / 3) {
+      warning(['depth', 'planet_radius', 'star_radius'], `Transit depth ${p.depth} ppm does not match (Rp/Rs)² = ${formatPpm(expected)} ppm from the entered radii`);
+    }
+  }
+
+  if (usable('star_logg') && usable('star_mass') && usable('star_radius')) {
+    const expected = SOLAR_LOGG + Math.log10(p.star_mass) - 2 * Math.log10(p.star_radius);
+    if (Math.abs(p.star_logg - expected) > 0.3) {
+      warning(['star_logg', 'star_mass', 'star_radius'], `Star log g ${p.star_logg} does not match ${expected.toFixed(2)} from the entered mass and radius`);
+    }
+  }
+
+  return issues;
+}
+
+function unit(range: ParameterRange): string {
+  return range.unit ? ` ${range.unit}` : '';
+}
+
+function formatPpm(value: number): string {
+  return value >= 1 ? value.toFixed(0) : value.toPrecision(2);
+}
+
+// Inline messages under each form field; returns true when nothing blocks the prediction
+export function showPlausibility(mission: string, issues: PlausibilityIssue[], fieldFor: (parameter: string) => string | undefined): boolean {
+  document.querySelectorAll(`[data-issues-for="${mission}"]`).forEach(el => el.remove());
+  document.querySelectorAll(`[id^="${mission}-"].field-error, [id^="${mission}-"].field-warning`)
+    .forEach(el => el.classList.remove('field-error', 'field-warning'));
+
+  for (const issue of issues) {
+    const inputs = issue.parameters
+      .map(parameter => fieldFor(parameter))
+      .map(field => field ? document.getElementById(fieldId(mission, field)) : null)
+      .filter((input): input is HTMLElement => input !== null);
+    if (inputs.length === 0) continue;
+
+    inputs.forEach(input => {
+      if (issue.severity === 'error' || !input.classList.contains('field-error')) {
+        input.classList.remove('field-warning');
+        input.classList.add(`field-${issue.severity}`);
+      }
+    });
+
+    const message = document.createElement('div');
+    message.className = `field-issue field-issue-${issue.severity}`;
+    message.dataset.issuesFor = mission;
+    message.textContent = `${issue.severity === 'error' ? '❌' : '⚠️'} ${issue.message}`;
+    inputs[0].closest('.form-field')?.appendChild(message);
+  }
+
+  return !issues.some(issue => issue.severity === 'error');
+}
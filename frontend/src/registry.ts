@@ -0,0 +1,52 @@
+import { loadModelManifest, ModelManifest } from './manifest';
+
+// Mission registry.
+// `/models/index.json` lists the mission directories to offer; each one is described by its
+// own manifest.json, so adding a mission means adding a directory and one entry here.
+
+interface MissionIndex {
+  default: string;
+  missions: string[];
+}
+
+export interface RegisteredMission {
+  name: string;
+  manifest: ModelManifest | null;
+  error?: string;
+}
+
+export interface MissionRegistry {
+  defaultMission: string;
+  missions: RegisteredMission[];
+}
+
+export async function loadRegistry(): Promise<MissionRegistry> {
+  const path = '/models/index.json';
+  const response = await fetch(path);
+  if (!response.ok) {
+    throw new Error(`Mission index not found at ${path} (HTTP ${response.status})`);
+  }
+
+  const index = await response.json() as MissionIndex;
+  if (!Array.isArray(index.missions) || index.missions.length === 0) {
+    throw new Error(`Mission index at ${path} lists no missions`);
+  }
+
+  // A broken manifest disables its mission but leaves the others usable
+  const missions = await Promise.all(index.missions.map(async (name): Promise<RegisteredMission> => {
+    try {
+      return { name, manifest: await loadModelManifest(name) };
+    } catch (error) {
+      return { name, manifest: null, error: error instanceof Error ? error.message : String(error) };
+    }
+  }));
+
+  return {
+    defaultMission: index.missions.includes(index.default) ? index.default : index.missions[0],
+    missions
+  };
+}
+
+export function missionDisplayName(mission: RegisteredMission): string {
+  return mission.manifest?.display_name ?? mission.name.toUpperCase();
+}
@@ -0,0 +1,94 @@
+// WebAssembly runtime selection for ONNX Runtime.
+// Threads need SharedArrayBuffer, which browsers only expose to cross-origin isolated pages
+// (COOP/COEP headers, see vercel.json and vite.config.ts). The bundled onnxruntime-web build
+// is compiled with SIMD, so a browser without it cannot run the models at all.
+
+export interface RuntimeCapabilities {
+  crossOriginIsolated: boolean;
+  sharedArrayBuffer: boolean;
+  simd: boolean;
+  hardwareConcurrency: number;
+}
+
+export interface RuntimeConfig {
+  label: string;
+  numThreads: number;
+  simd: boolean;
+}
+
+const MAX_THREADS = 4;
+
+// Smallest module using a v128 instruction (same probe as wasm-feature-detect)
+const SIMD_PROBE = new Uint8Array([
+  0, 97, 115, 109, 1, 0, 0, 0, 1, 5, 1, 96, 0, 1, 123, 3, 2, 1, 0, 10, 10, 1, 8, 0, 65, 0, 253, 15, 253, 98, 11
+]);
+
+export function detectCapabilities(): RuntimeCapabilities {
+  let simd = false;
+  try {
+    simd = typeof WebAssembly === 'object' && WebAssembly.validate(SIMD_PROBE);
+  } catch {
+    simd = false;
+  }
+
+  return {
+    crossOriginIsolated: globalThis.crossOriginIsolated === true,
+    sharedArrayBuffer: typeof SharedArrayBuffer !== 'undefined',
+    simd,
+    hardwareConcurrency: navigator.hardwareConcurrency || 1
+  };
+}
+
+export function threadsAvailable(capabilities: RuntimeCapabilities): boolean {
+  return capabilities.crossOriginIsolated && capabilities.sharedArrayBuffer && capabilities.hardwareConcurrency > 1;
+}
+
+// Use every available speed-up, falling back to a single thread when the page is not isolated
+export function chooseRuntimeConfig(capabilities: RuntimeCapabilities): RuntimeConfig {
+  if (threadsAvailable(capabilities)) {
+    const numThreads = Math.min(MAX_THREADS, capabilities.hardwareConcurrency);
+    return { label: `${numThreads} threads${capabilities.simd ? ' + SIMD' : ''}`, numThreads, simd: capabilities.simd };
+  }
+  return singleThreadConfig(capabilities);
+}
+
+export function singleThreadConfig(capabilities: RuntimeCapabilities): RuntimeConfig {
+  return { label: `1 thread${capabilities.simd ? ' + SIMD' : ''}`, numThreads: 1, simd: capabilities.simd };
+}
+
+// Configurations worth comparing on this browser
+export function benchmarkConfigs(capabilities: RuntimeCapabilities): RuntimeConfig[] {
+  const configs = [singleThreadConfig(capabilities)];
+  if (threadsAvailable(capabilities)) {
+    for (const threads of [2, MAX_THREADS]) {
+      if (threads <= capabilities.hardwareConcurrency && !configs.some(c => c.numThreads === threads)) {
+        configs.push({ label: `${threads} threads${capabilities.simd ? ' + SIMD' : ''}`, numThreads: threads, simd: capabilities.simd });
+      }
+    }
+  }
+  return configs;
+}
+
+export function renderRuntimeInfo(container: HTMLElement, capabilities: RuntimeCapabilities, config: RuntimeConfig, version: string | null) {
+  const yesNo = (value: boolean) => value ? '✅ yes' : '❌ no';
+  const threadNote = threadsAvailable(capabilities)
+    ? ''
+    : capabilities.crossOriginIsolated
+      ? 'Only one CPU core reported, so inference stays single-threaded.'
+      : 'Page is not cross-origin isolated (COOP/COEP headers missing), so inference stays single-threaded.';
+  const simdNote = capabilities.simd ? '' : 'This browser lacks WebAssembly SIMD, which the bundled ONNX Runtime requires; models will fail to load.';
+
+  container.innerHTML = `
+    <table class="batch-table diagnostics-table">
+      <tbody>
+        <tr><td>Cross-origin isolated</td><td>${yesNo(capabilities.crossOriginIsolated)}</td></tr>
+        <tr><td>SharedArrayBuffer</td><td>${yesNo(capabilities.sharedArrayBuffer)}</td></tr>
+        <tr><td>WebAssembly SIMD</td><td>${yesNo(capabilities.simd)}</td></tr>
+        <tr><td>Logical CPU cores</td><td>${capabilities.hardwareConcurrency}</td></tr>
+        <tr><td>Selected configuration</td><td><strong>${config.label}</strong></td></tr>
+        <tr><td>onnxruntime-web</td><td>${version ?? '—'}</td></tr>
+      </tbody>
+    </table>
+    ${[threadNote, simdNote].filter(Boolean).map(note => `<div class="diagnostics-note">ℹ️ ${note}</div>`).join('')}
+  `;
+}
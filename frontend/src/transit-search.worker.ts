@@ -0,0 +1,17 @@
+import { searchTransits, TransitSearchRequest, TransitSearchResponse } from './lightcurve';
+
+// Transit search worker: runs the BLS period loop so a long light curve never blocks the page.
+// One request per worker; see searchTransitsInWorker in lightcurve.ts.
+
+const post = (message: TransitSearchResponse, transfer: Transferable[] = []) => self.postMessage(message, { transfer });
+
+self.onmessage = (event: MessageEvent<TransitSearchRequest>) => {
+  try {
+    const { lightCurve, options } = event.data;
+    const search = searchTransits(lightCurve, options, fraction => post({ type: 'progress', fraction }));
+    const { lightCurve: searched, periods, power } = search;
+    post({ type: 'result', search }, [periods.buffer, power.buffer, searched.time.buffer, searched.flux.buffer, searched.fluxErr.buffer]);
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
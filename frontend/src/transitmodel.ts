@@ -0,0 +1,212 @@
+import { deriveQuantities, EARTH_TO_SOLAR_RADIUS, PhysicalParameters } from './derived';
+import { LightCurve } from './lightcurve';
+
+// Limb-darkened transit model for the entered parameters, drawn against the phase-folded
+// light curve when one has been searched (lightcurve.ts). The occulted flux follows the
+// quadratic limb-darkening law of Mandel & Agol (2002), integrated over stellar annuli,
+// for a circular orbit whose geometry is solved from the period, duration and depth.
+
+export interface TransitGeometry {
+  period: number; // days
+  duration: number; // hours, first to fourth contact
+  depth: number; // ppm
+  radiusRatio: number; // Rp/R★
+  aOverRstar: number;
+  impact: number;
+  notes: string[];
+}
+
+export interface FoldedLightCurve {
+  lightCurve: LightCurve;
+  epoch: number; // mid-transit, in the light curve's time units
+}
+
+// Quadratic coefficients of a Sun-like star in the Kepler/TESS bands
+export const LIMB_DARKENING: [number, number] = [0.40, 0.26];
+const ANNULI = 200;
+const MODEL_POINTS = 300;
+const FOLD_BINS = 60;
+const MAX_RAW_POINTS = 3000;
+// Half-width of the plot window in transit durations
+const WINDOW = 1.5;
+
+// Stellar intensity at radius r (stellar radii) relative to the disk center
+function intensity(r: number): number {
+  const [u1, u2] = LIMB_DARKENING;
+  const m = 1 - Math.sqrt(Math.max(0, 1 - r * r));
+  return 1 - u1 * m - u2 * m * m;
+}
+
+// Fraction of the stellar flux hidden by a planet of radius k at center separation z
+export function occultedFraction(k: number, z: number): number {
+  if (k <= 0 || z >= 1 + k) return 0;
+  const [u1, u2] = LIMB_DARKENING;
+  const total = Math.PI * (1 - u1 / 3 - u2 / 6);
+
+  const inner = Math.max(0, z - k);
+  const outer = Math.min(1, z + k);
+  const step = (outer - inner) / ANNULI;
+  let blocked = 0;
+  for (let i = 0; i < ANNULI; i++) {
+    const r = inner + (i + 0.5) * step;
+    // Angle of the annulus at r that lies behind the planet
+    const arc = r <= k - z
+      ? 2 * Math.PI
+      : 2 * Math.acos(Math.min(1, Math.max(-1, (r * r + z * z - k * k) / (2 * r * z))));
+    blocked += intensity(r) * arc * r * step;
+  }
+  return blocked / total;
+}
+
+// Circular-orbit geometry matching the entered duration and depth. a/R★ comes from the
+// stellar parameters when they are given (derived.ts); without them, or when the duration
+// is longer than a central transit allows, the transit is taken as central (b = 0).
+export function transitGeometry(p: PhysicalParameters): TransitGeometry | null {
+  if (!(p.period > 0) || !(p.duration > 0)) return null;
+  const notes: string[] = [];
+
+  const [u1, u2] = LIMB_DARKENING;
+  const stellar = deriveQuantities(p).find(q => q.name === 'a_over_rstar')?.value;
+  const chordFor = (aOverRstar: number) => Math.PI * p.duration / (p.period * 24) * aOverRstar;
+
+  let k = p.depth > 0
+    ? Math.sqrt(p.depth / 1e6)
+    : p.planet_radius > 0 && p.star_radius > 0 ? p.planet_radius * EARTH_TO_SOLAR_RADIUS / p.star_radius : 0;
+  if (!(k > 0)) return null;
+
+  let aOverRstar = stellar ?? 0;
+  let impact = 0;
+  // Depth depends on where the chord crosses the limb-darkened disk, and the chord on Rp/R★
+  for (let iteration = 0; iteration < 5; iteration++) {
+    if (stellar !== undefined && (1 + k) ** 2 > chordFor(stellar) ** 2) {
+      aOverRstar = stellar;
+      impact = Math.sqrt((1 + k) ** 2 - chordFor(stellar) ** 2);
+    } else {
+      impact = 0;
+      aOverRstar = (1 + k) * p.period * 24 / (Math.PI * p.duration);
+    }
+    if (p.depth > 0) {
+      const b = Math.min(impact, 0.99);
+      k = Math.sqrt(p.depth / 1e6 * (1 - u1 / 3 - u2 / 6) / intensity(b));
+    }
+  }
+
+  if (stellar === undefined) {
+    notes.push('No stellar radius and mass or log g: central transit (b = 0) assumed');
+  } else if (impact === 0) {
+    notes.push(`Duration is longer than a central transit across a star with a/R★ = ${stellar.toFixed(1)}; b = 0 and a/R★ fitted to the duration`);
+  }
+  if (impact > 1 - k) notes.push('Grazing geometry: the planet never fully overlaps the disk');
+  if (!(p.depth > 0)) notes.push('No depth entered: depth from the planet and stellar radii');
+
+  const depth = p.depth > 0 ? p.depth : occultedFraction(k, impact) * 1e6;
+  return { period: p.period, duration: p.duration, depth, radiusRatio: k, aOverRstar, impact, notes };
+}
+
+// Relative flux (1 out of transit) at `hours` from mid-transit
+export function transitModel(geometry: TransitGeometry, hours: number): number {
+  const phase = 2 * Math.PI * hours / (geometry.period * 24);
+  if (Math.cos(phase) <= 0) return 1; // planet behind the star
+  const cosI = geometry.impact / geometry.aOverRstar;
+  const z = geometry.aOverRstar * Math.sqrt(Math.sin(phase) ** 2 + (cosI * Math.cos(phase)) ** 2);
+  return 1 - occultedFraction(geometry.radiusRatio, z);
+}
+
+// Hours from the nearest mid-transit, for every point inside the plot window
+function fold(folded: FoldedLightCurve, period: number, halfWindow: number): { hours: number; flux: number }[] {
+  const points: { hours: number; flux: number }[] = [];
+  const { time, flux } = folded.lightCurve;
+  for (let i = 0; i < time.length; i++) {
+    const offset = time[i] - folded.epoch;
+    const hours = (offset - Math.round(offset / period) * period) * 24;
+    if (Math.abs(hours) <= halfWindow) points.push({ hours, flux: flux[i] });
+  }
+  return points;
+}
+
+export function renderTransitPlot(container: HTMLElement, geometry: TransitGeometry, folded: FoldedLightCurve | null) {
+  const width = 560;
+  const height = 180;
+  const residualHeight = 70;
+  const gap = 20;
+  const pad = 40;
+  const halfWindow = WINDOW * geometry.duration;
+
+  const model = Array.from({ length: MODEL_POINTS + 1 }, (_, i) => {
+    const hours = -halfWindow + 2 * halfWindow * i / MODEL_POINTS;
+    return { hours, ppm: (transitModel(geometry, hours) - 1) * 1e6 };
+  });
+
+  const points = folded ? fold(folded, geometry.period, halfWindow) : [];
+  const binWidth = 2 * halfWindow / FOLD_BINS;
+  const sums = new Float64Array(FOLD_BINS);
+  const counts = new Uint32Array(FOLD_BINS);
+  for (const point of points) {
+    const bin = Math.min(FOLD_BINS - 1, Math.floor((point.hours + halfWindow) / binWidth));
+    sums[bin] += (point.flux - 1) * 1e6;
+    counts[bin]++;
+  }
+  const bins = Array.from(counts, (count, b) => {
+    const hours = -halfWindow + (b + 0.5) * binWidth;
+    const ppm = sums[b] / count;
+    return { hours, ppm, residual: ppm - (transitModel(geometry, hours) - 1) * 1e6, count };
+  }).filter(bin => bin.count > 0);
+
+  // Axis range covers the model and the binned data, not every noisy raw point
+  const lows = [...model.map(m => m.ppm), ...bins.map(b => b.ppm)];
+  const highs = bins.map(b => b.ppm);
+  const bottom = Math.min(...lows) * 1.2 - 50;
+  const top = Math.max(0, ...highs) + 0.2 * Math.abs(bottom);
+  const residualRange = Math.max(50, ...bins.map(b => Math.abs(b.residual))) * 1.2;
+
+  const x = (hours: number) => pad + (hours + halfWindow) / (2 * halfWindow) * width;
+  const y = (ppm: number) => pad + (top - ppm) / (top - bottom) * height;
+  const residualTop = pad + height + gap;
+  const yResidual = (ppm: number) => residualTop + (1 - (ppm + residualRange) / (2 * residualRange)) * residualHeight;
+  const inside = (value: number, low: number, high: number) => value >= low && value <= high;
+
+  const stride = Math.max(1, Math.ceil(points.length / MAX_RAW_POINTS));
+  const raw = points
+    .filter((p, i) => i % stride === 0 && inside((p.flux - 1) * 1e6, bottom, top))
+    .map(p => `<circle cx="${x(p.hours).toFixed(1)}" cy="${y((p.flux - 1) * 1e6).toFixed(1)}" r="1" class="fold-raw"/>`)
+    .join('');
+
+  const hourTicks = [-3, -2, -1, 0, 1, 2, 3]
+    .map(t => t * Math.max(1, Math.round(halfWindow / 3)))
+    .filter(t => inside(t, -halfWindow, halfWindow));
+  const rms = bins.length > 0 ? Math.sqrt(bins.reduce((sum, b) => sum + b.residual ** 2, 0) / bins.length) : null;
+
+  container.innerHTML = `
+    <h5>📉 Transit Model${folded ? ' and Folded Light Curve' : ''}</h5>
+    <svg class="roc-chart transit-chart" viewBox="0 0 ${width + pad * 2} ${residualTop + residualHeight + pad}" role="img" aria-label="Transit model">
+      <rect x="${pad}" y="${pad}" width="${width}" height="${height}" fill="none" stroke="rgba(255,255,255,0.3)"/>
+      <line x1="${pad}" y1="${y(0)}" x2="${pad + width}" y2="${y(0)}" stroke="rgba(255,255,255,0.2)" stroke-dasharray="4 4"/>
+      ${raw}
+      ${bins.map(b => `<circle cx="${x(b.hours).toFixed(1)}" cy="${y(b.ppm).toFixed(1)}" r="2.5" class="fold-binned"><title>${b.hours.toFixed(2)} h: ${Math.round(b.ppm)} ppm (${b.count} points)</title></circle>`).join('')}
+      <polyline fill="none" stroke="#ff4d6d" stroke-width="2" points="${model.map(m => `${x(m.hours).toFixed(1)},${y(m.ppm).toFixed(1)}`).join(' ')}"/>
+      <text x="${pad - 4}" y="${y(0) + 4}" text-anchor="end">0</text>
+      <text x="${pad - 4}" y="${y(-geometry.depth) + 4}" text-anchor="end">−${Math.round(geometry.depth)}</text>
+      <text x="12" y="${pad + height / 2}" text-anchor="middle" transform="rotate(-90 12 ${pad + height / 2})">Flux (ppm)</text>
+      ${folded ? `
+        <rect x="${pad}" y="${residualTop}" width="${width}" height="${residualHeight}" fill="none" stroke="rgba(255,255,255,0.3)"/>
+        <line x1="${pad}" y1="${yResidual(0)}" x2="${pad + width}" y2="${yResidual(0)}" stroke="#ff4d6d" stroke-dasharray="4 4"/>
+        ${bins.map(b => `<circle cx="${x(b.hours).toFixed(1)}" cy="${yResidual(b.residual).toFixed(1)}" r="2.5" class="fold-binned"><title>Residual ${Math.round(b.residual)} ppm</title></circle>`).join('')}
+        <text x="${pad - 4}" y="${residualTop + 10}" text-anchor="end">+${Math.round(residualRange)}</text>
+        <text x="${pad - 4}" y="${residualTop + residualHeight}" text-anchor="end">−${Math.round(residualRange)}</text>
+        <text x="12" y="${residualTop + residualHeight / 2}" text-anchor="middle" transform="rotate(-90 12 ${residualTop + residualHeight / 2})">Resid.</text>
+      ` : ''}
+      ${hourTicks.map(t => `<text x="${x(t)}" y="${(folded ? residualTop + residualHeight : pad + height) + 15}" text-anchor="middle">${t}</text>`).join('')}
+      <text x="${pad + width / 2}" y="${(folded ? residualTop + residualHeight : pad + height) + 32}" text-anchor="middle">Hours from mid-transit</text>
+    </svg>
+    <div class="explanation-note">
+      Rp/R★ = ${geometry.radiusRatio.toFixed(4)}, a/R★ = ${geometry.aOverRstar.toFixed(1)}, b = ${geometry.impact.toFixed(2)},
+      quadratic limb darkening u = (${LIMB_DARKENING.join(', ')}).
+      ${folded
+        ? points.length > 0
+          ? `${points.length} points folded on P = ${geometry.period} d around the detected epoch; binned residual RMS ${Math.round(rms ?? 0)} ppm.`
+          : 'The loaded light curve has no points near the folded transit.'
+        : 'Load a light curve in the transit search to overlay the data.'}
+    </div>
+    ${geometry.notes.map(note => `<div class="explanation-note">⚠️ ${note}</div>`).join('')}
+  `;
+}
@@ -0,0 +1,40 @@
+// Shared shapes passed between the classifier and its helper modules
+
+// Populated from the mission's manifest.json; scores are 0-1 on the held-out test split
+export interface ModelMetadata {
+  dataset: string;
+  model_type: string;
+  accuracy_score: number;
+  precision_score: number;
+  recall_score: number;
+  f1_score: number;
+  roc_auc_score?: number;
+  cv_mean?: number;
+  cv_std?: number;
+  features_count: number;
+  training_samples: number;
+}
+
+// Which path produced a result: real ONNX inference or the opt-in demo simulation
+export type InferenceSource = 'onnx' | 'demo';
+
+export interface PredictionOutput {
+  classIndex: number;
+  probabilities: number[];
+  confidence: number;
+  source: InferenceSource;
+}
+
+// One classified object, as saved or exported
+export interface PredictionRecord {
+  timestamp: string; // ISO 8601, UTC
+  model: string;
+  object: string;
+  inputs: { [field: string]: number };
+  metrics: ModelMetadata | null;
+  class_names: string[];
+  predicted_class: string;
+  probabilities: number[];
+  confidence: number;
+  source: InferenceSource;
+}
@@ -0,0 +1,149 @@
+import { classColor } from './evaluation';
+import { BatchEvaluator, mulberry32 } from './explain';
+import { FeatureSchema, FeatureValues, resolveColumn } from './features';
+import { FormField } from './manifest';
+
+// Measurement uncertainty for manual predictions.
+// Entered ± values fill the catalog's paired error columns (`<column>err1` = +σ,
+// `<column>err2` = −σ, or `<column>_err1/_err2` for the KOI table), which the models were
+// trained with. Monte Carlo mode then draws the inputs from Gaussians of those widths,
+// runs every draw through the model and summarizes the spread of the class probabilities.
+
+export interface ClassUncertainty {
+  mean: number;
+  lower: number; // 2.5th percentile of the class probability
+  upper: number; // 97.5th percentile
+  fraction: number; // share of draws predicted as this class
+}
+
+export interface MonteCarloResult {
+  draws: number;
+  varied: string[]; // form fields sampled within their errors
+  classes: ClassUncertainty[];
+}
+
+export const MONTE_CARLO_DRAWS = 1000;
+const CREDIBLE_MASS = 0.95;
+// Redraws before a sample outside a field's range is clamped into it
+const MAX_REDRAWS = 20;
+
+// Error columns filled from the entered uncertainties, in catalog units and sign convention
+export function errorFeatureValues(schema: FeatureSchema, errors: FeatureValues): FeatureValues {
+  const values: FeatureValues = {};
+
+  for (const [field, error] of Object.entries(errors)) {
+    if (error === null || error === undefined || !(error > 0)) continue;
+    const target = resolveColumn(schema, field);
+    if (!target) continue;
+
+    for (const [upper, lower] of [[`${target.column}err1`, `${target.column}err2`], [`${target.column}_err1`, `${target.column}_err2`]]) {
+      if (schema.feature_names.includes(upper)) values[upper] = error * target.scale;
+      if (schema.feature_names.includes(lower)) values[lower] = -error * target.scale;
+    }
+  }
+  return values;
+}
+
+// `build` turns one set of form values into the model's feature vector, so quantities
+// derived from the inputs are recomputed for every draw
+export async function monteCarloPrediction(
+  evaluate: BatchEvaluator,
+  build: (values: FeatureValues) => Float32Array,
+  fields: FormField[],
+  values: FeatureValues,
+  errors: FeatureValues,
+  draws = MONTE_CARLO_DRAWS,
+  seed = 42
+): Promise<MonteCarloResult> {
+  const varied = fields.filter(field => {
+    const value = values[field.name];
+    const error = errors[field.name];
+    return value !== null && value !== undefined && error !== null && error !== undefined && error > 0;
+  });
+  if (varied.length === 0) {
+    throw new Error('Enter a ± uncertainty for at least one filled-in field');
+  }
+
+  const random = mulberry32(seed);
+  const gaussian = () => {
+    // Box-Muller; 1 - u keeps the logarithm finite
+    const u = 1 - random();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+  };
+
+  let data: Float32Array | null = null;
+  for (let draw = 0; draw < draws; draw++) {
+    const sample: FeatureValues = { ...values };
+    for (const field of varied) {
+      const value = values[field.name]!;
+      const error = errors[field.name]!;
+      let drawn = value + error * gaussian();
+      for (let retry = 0; retry < MAX_REDRAWS && outside(field, drawn); retry++) {
+        drawn = value + error * gaussian();
+      }
+      sample[field.name] = clamp(field, drawn);
+    }
+
+    const vector = build(sample);
+    data ??= new Float32Array(draws * vector.length);
+    data.set(vector, draw * vector.length);
+  }
+
+  const probabilities = await evaluate(data!, draws);
+  const classCount = probabilities[0]?.length ?? 0;
+  const winners = probabilities.map(p => p.indexOf(Math.max(...p)));
+  const tail = (1 - CREDIBLE_MASS) / 2;
+
+  const classes = Array.from({ length: classCount }, (_, index) => {
+    const column = probabilities.map(p => p[index]).sort((a, b) => a - b);
+    return {
+      mean: column.reduce((sum, p) => sum + p, 0) / draws,
+      lower: quantile(column, tail),
+      upper: quantile(column, 1 - tail),
+      fraction: winners.filter(winner => winner === index).length / draws
+    };
+  });
+
+  return { draws, varied: varied.map(field => field.name), classes };
+}
+
+function outside(field: FormField, value: number): boolean {
+  return (field.min !== undefined && value < field.min) || (field.max !== undefined && value > field.max);
+}
+
+function clamp(field: FormField, value: number): number {
+  return Math.min(field.max ?? Infinity, Math.max(field.min ?? -Infinity, value));
+}
+
+// Linear interpolation between order statistics of an ascending array
+function quantile(sorted: number[], q: number): number {
+  const position = (sorted.length - 1) * q;
+  const below = Math.floor(position);
+  const above = Math.min(below + 1, sorted.length - 1);
+  return sorted[below] + (sorted[above] - sorted[below]) * (position - below);
+}
+
+export function renderMonteCarlo(container: HTMLElement, result: MonteCarloResult, classNames: string[], fields: FormField[]) {
+  const labels = result.varied.map(name => fields.find(field => field.name === name)?.label ?? name);
+
+  container.innerHTML = `
+    <h5>🎲 Prediction Uncertainty</h5>
+    <div class="explanation-note">
+      ${result.draws} draws with ${labels.join(', ')} sampled within ±1σ (Gaussian).
+      Bars span the ${Math.round(CREDIBLE_MASS * 100)}% credible interval of each class probability; the tick marks the mean.
+    </div>
+    ${result.classes.map((c, index) => `
+      <div class="uncertainty-row">
+        <div class="uncertainty-label">${classNames[index] ?? index}</div>
+        <div class="waterfall-track" title="Mean ${(c.mean * 100).toFixed(1)}%, ${Math.round(CREDIBLE_MASS * 100)}% interval ${(c.lower * 100).toFixed(1)}–${(c.upper * 100).toFixed(1)}%">
+          <div class="uncertainty-interval" style="left: ${c.lower * 100}%; width: ${Math.max((c.upper - c.lower) * 100, 0.5)}%; background: ${classColor(classNames[index] ?? '', index)};"></div>
+          <div class="uncertainty-mean" style="left: ${c.mean * 100}%;"></div>
+        </div>
+        <div class="uncertainty-value">
+          ${(c.mean * 100).toFixed(1)}% <small>[${(c.lower * 100).toFixed(1)}, ${(c.upper * 100).toFixed(1)}]</small>
+        </div>
+        <div class="uncertainty-value">${(c.fraction * 100).toFixed(1)}% of draws</div>
+      </div>
+    `).join('')}
+  `;
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { PhysicalParameters } from './derived';
+import { FoldedLightCurve } from './transitmodel';
+import { VettingStatus, vetTransit } from './vetting';
+
+// Sun-like star with a 3-day companion; a central transit lasts about 2.7 h
+const PERIOD = 3;
+const DURATION = 2.7;
+const EPOCH = 1.2;
+const planet: PhysicalParameters = { period: PERIOD, duration: DURATION, depth: 1000, star_radius: 1, star_mass: 1 };
+
+// 27 days of 10-minute cadence with 200 ppm Gaussian noise (fixed seed); `deficit` gives the
+// flux drop in ppm for a point's transit cycle and hours from mid-transit
+function folded(deficit: (cycle: number, hours: number) => number): FoldedLightCurve {
+  let seed = 12345;
+  const uniform = () => (seed = (seed * 1664525 + 1013904223) % 4294967296) / 4294967296;
+  const noise = () => Math.sqrt(-2 * Math.log(uniform() + 1e-12)) * Math.cos(2 * Math.PI * uniform()) * 200e-6;
+
+  const time = Float64Array.from({ length: 27 * 144 }, (_, i) => i / 144);
+  const flux = time.map(t => {
+    const cycles = (t - EPOCH) / PERIOD;
+    const cycle = Math.round(cycles);
+    return 1 - deficit(cycle, (cycles - cycle) * PERIOD * 24) * 1e-6 + noise();
+  });
+  return {
+    lightCurve: { time, flux, fluxErr: new Float64Array(time.length).fill(200e-6), timeReference: null, source: 'synthetic' },
+    epoch: EPOCH
+  };
+}
+
+const box = (depth: number) => (hours: number) => Math.abs(hours) < DURATION / 2 ? depth : 0;
+const statuses = (checks: ReturnType<typeof vetTransit>) =>
+  Object.fromEntries(checks.map(check => [check.name, check.status])) as { [name: string]: VettingStatus };
+
+describe('vetTransit', () => {
+  it('passes a flat-bottomed planetary transit', () => {
+    expect(statuses(vetTransit(planet, folded((_, hours) => box(1000)(hours))))).toEqual({
+      odd_even: 'pass',
+      secondary: 'pass',
+      v_shape: 'pass',
+      companion_radius: 'pass',
+      duration_density: 'pass'
+    });
+  });
+
+  it('fails an eclipsing binary on alternating depths and a secondary eclipse', () => {
+    const binary = folded((cycle, hours) => {
+      const primary = box(cycle % 2 === 0 ? 3000 : 1000)(hours);
+      // Half a period from mid-transit
+      return primary + box(600)(PERIOD * 12 - Math.abs(hours));
+    });
+    const result = statuses(vetTransit({ ...planet, depth: 2000 }, binary));
+
+    expect(result.odd_even).toBe('fail');
+    expect(result.secondary).toBe('fail');
+  });
+
+  it('fails a V-shaped eclipse on the measured transit shape', () => {
+    const vShape = folded((_, hours) => Math.max(0, 2000 * (1 - 2 * Math.abs(hours) / DURATION)));
+    const check = vetTransit(planet, vShape).find(c => c.name === 'v_shape')!;
+
+    expect(check.status).toBe('fail');
+    expect(Number(check.value.split(' ')[0])).toBeCloseTo(1 / 3, 1);
+  });
+
+  it('falls back to the entered parameters without a light curve', () => {
+    const checks = vetTransit({ ...planet, planet_radius: 30, duration: 3 * DURATION }, null);
+
+    expect(statuses(checks)).toEqual({
+      odd_even: 'unavailable',
+      secondary: 'unavailable',
+      v_shape: 'pass',
+      companion_radius: 'fail',
+      duration_density: 'fail'
+    });
+    expect(checks.find(c => c.name === 'v_shape')!.detail).toContain('b + Rp/R★');
+  });
+
+  it('fails a grazing geometry and reports what missing inputs block', () => {
+    const grazing = statuses(vetTransit({ ...planet, duration: 0.8, depth: 20000 }, null));
+    const bare = vetTransit({ period: PERIOD }, null);
+
+    expect(grazing.v_shape).toBe('fail');
+    expect(bare.every(check => check.status === 'unavailable')).toBe(true);
+  });
+});
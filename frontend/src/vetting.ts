@@ -0,0 +1,241 @@
+import { centralTransitDuration, deriveQuantities, EARTH_TO_SOLAR_RADIUS, PhysicalParameters, stellarDensity } from './derived';
+import { escapeHtml } from './html';
+import { FoldedLightCurve, transitGeometry } from './transitmodel';
+
+// Rule-based false-positive vetting, in the spirit of the Kepler Robovetter (Thompson et al.
+// 2018) and DAVE (Kostov et al. 2019). Each check reports a measured value and passes or
+// fails on its own, independently of the classifier. Light-curve checks fold the data from
+// the latest transit search (lightcurve.ts) on the entered period.
+
+export type VettingStatus = 'pass' | 'fail' | 'unavailable';
+
+export interface VettingCheck {
+  name: string;
+  label: string;
+  status: VettingStatus;
+  value: string; // measured value, or why it could not be measured
+  detail: string; // the failure criterion
+}
+
+// Odd and even transits of an eclipsing binary at twice the period differ in depth
+const ODD_EVEN_SIGMA = 3;
+// A significant secondary eclipse this deep relative to the primary is not planetary reflection
+const SECONDARY_SIGMA = 4;
+const SECONDARY_DEPTH_RATIO = 0.1;
+// Mean depth in the outer half of the transit over the inner half: ~0.8-1 for a U-shaped
+// planet transit, 1/3 for a V
+const MIN_SHAPE_RATIO = 0.5;
+// b + Rp/R★ above this is a grazing, V-shaped eclipse (Robovetter)
+const MAX_GRAZING = 1.04;
+// Companion radius above ~2 Jupiter radii is a star (plausibility.ts warns at the same size)
+const MAX_PLANET_RADIUS = 25;
+// Longer than a central transit across the catalog star by more than eccentricity allows
+const MAX_DURATION_RATIO = 1.5;
+
+export function vetTransit(p: PhysicalParameters, folded: FoldedLightCurve | null): VettingCheck[] {
+  const points = folded && p.period > 0 && p.duration > 0 ? foldPoints(folded, p.period) : null;
+  return [
+    oddEvenCheck(points, p),
+    secondaryCheck(points, p),
+    shapeCheck(points, p),
+    companionRadiusCheck(p),
+    durationCheck(p)
+  ];
+}
+
+interface FoldedPoint {
+  cycle: number;
+  hours: number; // from the nearest mid-transit
+  phase: number; // 0 to 1, 0 at mid-transit
+  flux: number;
+}
+
+function foldPoints(folded: FoldedLightCurve, period: number): FoldedPoint[] {
+  const { time, flux } = folded.lightCurve;
+  return Array.from(time, (t, i) => {
+    const cycles = (t - folded.epoch) / period;
+    const cycle = Math.round(cycles);
+    return { cycle, hours: (cycles - cycle) * period * 24, phase: cycles - Math.floor(cycles), flux: flux[i] };
+  });
+}
+
+// Mean flux deficit (ppm) of the points and its standard error, against an out-of-transit baseline
+function meanDepth(points: FoldedPoint[], baseline: number, scatter: number): { depth: number; error: number } | null {
+  if (points.length < 3) return null;
+  const mean = points.reduce((sum, point) => sum + point.flux, 0) / points.length;
+  return { depth: (baseline - mean) * 1e6, error: scatter / Math.sqrt(points.length) * 1e6 };
+}
+
+function outOfTransit(points: FoldedPoint[], duration: number): { baseline: number; scatter: number } {
+  const outside = points.filter(point => Math.abs(point.hours) > duration).map(point => point.flux);
+  const mean = outside.reduce((sum, flux) => sum + flux, 0) / Math.max(1, outside.length);
+  const variance = outside.reduce((sum, flux) => sum + (flux - mean) ** 2, 0) / Math.max(1, outside.length - 1);
+  return { baseline: mean, scatter: Math.sqrt(variance) };
+}
+
+const NO_LIGHT_CURVE = 'needs a light curve (run a transit search)';
+
+function oddEvenCheck(points: FoldedPoint[] | null, p: PhysicalParameters): VettingCheck {
+  const check = {
+    name: 'odd_even',
+    label: 'Odd/even depth difference',
+    detail: `Fails when odd and even transit depths differ by more than ${ODD_EVEN_SIGMA}σ`
+  };
+  if (!points) return { ...check, status: 'unavailable', value: NO_LIGHT_CURVE };
+
+  const { baseline, scatter } = outOfTransit(points, p.duration);
+  const central = points.filter(point => Math.abs(point.hours) < p.duration / 4);
+  const odd = meanDepth(central.filter(point => Math.abs(point.cycle % 2) === 1), baseline, scatter);
+  const even = meanDepth(central.filter(point => point.cycle % 2 === 0), baseline, scatter);
+  if (!odd || !even) return { ...check, status: 'unavailable', value: 'odd or even transits have no data' };
+
+  const sigma = Math.abs(odd.depth - even.depth) / Math.hypot(odd.error, even.error);
+  return {
+    ...check,
+    status: sigma > ODD_EVEN_SIGMA ? 'fail' : 'pass',
+    value: `odd ${Math.round(odd.depth)} ± ${Math.round(odd.error)} ppm, even ${Math.round(even.depth)} ± ${Math.round(even.error)} ppm (${sigma.toFixed(1)}σ)`
+  };
+}
+
+// Deepest transit-length box anywhere between phases 0.25 and 0.75
+function secondaryCheck(points: FoldedPoint[] | null, p: PhysicalParameters): VettingCheck {
+  const check = {
+    name: 'secondary',
+    label: 'Secondary eclipse',
+    detail: `Fails on a secondary eclipse above ${SECONDARY_SIGMA}σ and deeper than ${SECONDARY_DEPTH_RATIO * 100}% of the primary`
+  };
+  if (!points) return { ...check, status: 'unavailable', value: NO_LIGHT_CURVE };
+
+  const { baseline, scatter } = outOfTransit(points, p.duration);
+  const width = p.duration / (p.period * 24);
+  const sorted = points.filter(point => point.phase > 0.25 - width && point.phase < 0.75 + width).sort((a, b) => a.phase - b.phase);
+
+  let best: { phase: number; depth: number; error: number } | null = null;
+  let lo = 0;
+  let hi = 0;
+  let sum = 0;
+  for (let center = 0.25; center <= 0.75; center += width / 4) {
+    while (hi < sorted.length && sorted[hi].phase < center + width / 2) sum += sorted[hi++].flux;
+    while (lo < hi && sorted[lo].phase < center - width / 2) sum -= sorted[lo++].flux;
+    const count = hi - lo;
+    if (count < 3) continue;
+    const depth = (baseline - sum / count) * 1e6;
+    const error = scatter / Math.sqrt(count) * 1e6;
+    if (!best || depth / error > best.depth / best.error) best = { phase: center, depth, error };
+  }
+  if (!best) return { ...check, status: 'unavailable', value: 'no data away from the transit' };
+
+  const sigma = best.depth / best.error;
+  const ratio = p.depth > 0 ? best.depth / p.depth : 0;
+  return {
+    ...check,
+    status: sigma > SECONDARY_SIGMA && ratio > SECONDARY_DEPTH_RATIO ? 'fail' : 'pass',
+    value: `${Math.round(best.depth)} ± ${Math.round(best.error)} ppm at phase ${best.phase.toFixed(2)} (${sigma.toFixed(1)}σ${p.depth > 0 ? `, ${(ratio * 100).toFixed(1)}% of primary` : ''})`
+  };
+}
+
+// Measured from the folded transit when there is a light curve, else b + Rp/R★ from the geometry
+function shapeCheck(points: FoldedPoint[] | null, p: PhysicalParameters): VettingCheck {
+  const check = { name: 'v_shape', label: 'V-shape metric' };
+
+  if (points) {
+    const { baseline, scatter } = outOfTransit(points, p.duration);
+    const inner = meanDepth(points.filter(point => Math.abs(point.hours) < p.duration / 4), baseline, scatter);
+    const outer = meanDepth(points.filter(point => Math.abs(point.hours) >= p.duration / 4 && Math.abs(point.hours) < p.duration / 2), baseline, scatter);
+    if (inner && outer && inner.depth > 3 * inner.error) {
+      const ratio = outer.depth / inner.depth;
+      return {
+        ...check,
+        detail: `Outer-half over inner-half transit depth; fails below ${MIN_SHAPE_RATIO} (1 is a flat bottom, 1/3 a V)`,
+        status: ratio < MIN_SHAPE_RATIO ? 'fail' : 'pass',
+        value: `${ratio.toFixed(2)} (outer ${Math.round(outer.depth)} ppm, inner ${Math.round(inner.depth)} ppm)`
+      };
+    }
+  }
+
+  const detail = `b + Rp/R★ from the entered duration and stellar density; fails above ${MAX_GRAZING}`;
+  const geometry = transitGeometry(p);
+  const stellar = deriveQuantities(p).some(q => q.name === 'a_over_rstar');
+  if (!geometry || !stellar) {
+    return { ...check, detail, status: 'unavailable', value: 'needs period, duration, depth and stellar radius with mass or log g' };
+  }
+  const grazing = geometry.impact + geometry.radiusRatio;
+  return {
+    ...check,
+    detail,
+    status: grazing > MAX_GRAZING ? 'fail' : 'pass',
+    value: `${grazing.toFixed(3)} (b = ${geometry.impact.toFixed(2)}, Rp/R★ = ${geometry.radiusRatio.toFixed(4)})`
+  };
+}
+
+function companionRadiusCheck(p: PhysicalParameters): VettingCheck {
+  const check = {
+    name: 'companion_radius',
+    label: 'Implied companion radius',
+    detail: `Fails above ${MAX_PLANET_RADIUS} R⊕ (about 2 Jupiter radii), the size of a low-mass star`
+  };
+
+  const radius = p.planet_radius > 0
+    ? p.planet_radius
+    : p.depth > 0 && p.star_radius > 0 ? Math.sqrt(p.depth / 1e6) * p.star_radius / EARTH_TO_SOLAR_RADIUS : null;
+  if (radius === null) {
+    return { ...check, status: 'unavailable', value: 'needs a planet radius, or a depth and stellar radius' };
+  }
+  return {
+    ...check,
+    status: radius > MAX_PLANET_RADIUS ? 'fail' : 'pass',
+    value: `${radius.toFixed(1)} R⊕${p.planet_radius > 0 ? '' : ' (√depth × R★)'}`
+  };
+}
+
+function durationCheck(p: PhysicalParameters): VettingCheck {
+  const check = {
+    name: 'duration_density',
+    label: 'Duration vs stellar density',
+    detail: `Fails when the transit lasts more than ${MAX_DURATION_RATIO}× a central transit across the catalog star`
+  };
+
+  const density = stellarDensity(p);
+  const aOverRstar = deriveQuantities(p).find(q => q.name === 'a_over_rstar')?.value;
+  if (!(p.duration > 0) || density === null || aOverRstar === undefined) {
+    return { ...check, status: 'unavailable', value: 'needs period, duration and stellar radius with mass or log g' };
+  }
+
+  const radiusRatio = p.depth > 0 ? Math.sqrt(p.depth / 1e6) : 0;
+  const ratio = p.duration / centralTransitDuration(p.period, aOverRstar, radiusRatio);
+  // Density the duration implies for a central transit, ρ ∝ (a/R★)³ ∝ T⁻³ at fixed period
+  const impliedDensity = density * ratio ** -3;
+  return {
+    ...check,
+    status: ratio > MAX_DURATION_RATIO ? 'fail' : 'pass',
+    value: `${ratio.toFixed(2)}× the central duration (transit implies ρ★ ≤ ${impliedDensity.toFixed(2)} ρ☉, catalog ${density.toFixed(2)} ρ☉)`
+  };
+}
+
+export function renderVetting(container: HTMLElement, checks: VettingCheck[], predictedClass: string) {
+  const failed = checks.filter(check => check.status === 'fail');
+  const ran = checks.filter(check => check.status !== 'unavailable');
+  const icons: { [status in VettingStatus]: string } = { pass: '✅', fail: '❌', unavailable: '➖' };
+
+  container.innerHTML = `
+    <h5>🔬 Vetting Diagnostics</h5>
+    <div class="explanation-note">
+      Model verdict: <strong>${escapeHtml(predictedClass)}</strong>.
+      ${ran.length === 0
+        ? 'No check could run on these inputs.'
+        : `${failed.length} of ${ran.length} checks ${failed.length === 1 ? 'flags' : 'flag'} a false positive${failed.length > 0 ? `: ${escapeHtml(failed.map(check => check.label.toLowerCase()).join(', '))}` : ''}.`}
+    </div>
+    <table class="batch-table vetting-table">
+      <tbody>
+        ${checks.map(check => `
+          <tr class="vetting-${check.status}" title="${escapeHtml(check.detail)}">
+            <td>${icons[check.status]}</td>
+            <td>${escapeHtml(check.label)}</td>
+            <td>${escapeHtml(check.value)}</td>
+          </tr>
+        `).join('')}
+      </tbody>
+    </table>
+    <div class="explanation-note">Rule-based checks, independent of the classifier. Hover a row for its criterion.</div>
+  `;
+}
@@ -1,5 +1,11 @@
 import { defineConfig } from 'vite'
 
+// Cross-origin isolation unlocks SharedArrayBuffer, which multithreaded ONNX Runtime needs
+const crossOriginIsolation = {
+  'Cross-Origin-Embedder-Policy': 'require-corp',
+  'Cross-Origin-Opener-Policy': 'same-origin'
+}
+
 export default defineConfig({
   base: '/',
   root: '.',
@@ -14,7 +20,15 @@ export default defineConfig({
   },
   server: {
     port: 3000,
-    open: true
+    open: true,
+    headers: crossOriginIsolation
+  },
+  preview: {
+    headers: crossOriginIsolation
+  },
+  // ES module workers so onnxruntime-web can load its wasm glue from the inference worker
+  worker: {
+    format: 'es'
   },
   assetsInclude: ['**/*.onnx']
 })
\ No newline at end of file
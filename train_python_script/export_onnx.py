@@ -0,0 +1,102 @@
+"""Export the K2 and Kepler pipelines to ONNX together with the feature list the web app uses.
+
+The app assembles a raw feature vector in the order of `<mission>_features.json`, runs it
+through `<mission>_scaler.onnx` and feeds the result to `<mission>_model.onnx`. All three are
+written here from the objects `train_k2.ipynb` and `train_kepler.ipynb` saved, so the column
+order comes from the fitted selector's `feature_names_in_` instead of being maintained by hand:
+
+    <mission>_features.json  feature_names = selector.feature_names_in_
+    <mission>_scaler.onnx    SelectKBest + RobustScaler (float_input -> variable)
+    <mission>_model.onnx     final classifier (input -> label, probabilities)
+
+The TESS model is exported by cell 8 of train_tess.ipynb.
+
+Usage (from train_python_script/, after running the notebooks):
+    python export_onnx.py
+"""
+import json
+from pathlib import Path
+
+import joblib
+from lightgbm import LGBMClassifier
+from onnxmltools.convert.lightgbm.operator_converters.LightGbm import convert_lightgbm
+from skl2onnx import convert_sklearn, update_registered_converter
+from skl2onnx.common.data_types import FloatTensorType
+from skl2onnx.common.shape_calculator import calculate_linear_classifier_output_shapes
+from sklearn.pipeline import Pipeline
+
+FRONTEND = Path(__file__).resolve().parent.parent / 'frontend'
+MODEL_DIRS = [FRONTEND / 'models', FRONTEND / 'public' / 'models']
+
+# Encoded targets of both notebooks (create_3class_target), the manifests' class_mapping
+CLASS_NAMES = ['Candidate', 'Confirmed', 'False_Positive']
+
+MISSIONS = {
+    'k2': 'k2_results/k2_final_model_gradient_boosting.joblib',
+    'kepler': 'kepler_results/kepler_final_model_lightgbm.joblib',
+}
+
+update_registered_converter(
+    LGBMClassifier, 'LightGbmLGBMClassifier',
+    calculate_linear_classifier_output_shapes, convert_lightgbm,
+    options={'nocl': [True, False], 'zipmap': [True, False, 'columns']}
+)
+
+
+def write_json(path, data):
+    with open(path, 'w', encoding='utf-8') as f:
+        json.dump(data, f, indent=2, ensure_ascii=False)
+        f.write('\n')
+
+
+def export_mission(mission, model_path):
+    results_dir = Path(f'{mission}_results')
+    selector = joblib.load(results_dir / f'{mission}_feature_selector.joblib')
+    scaler = joblib.load(results_dir / f'{mission}_scaler.joblib')
+    model = joblib.load(model_path)
+
+    feature_names = [str(name) for name in selector.feature_names_in_]
+    selected = [str(name) for name in scaler.feature_names_in_]
+    assert selected == [name for name, keep in zip(feature_names, selector.get_support()) if keep], \
+        f'{mission}: scaler columns are not the selector output'
+    assert list(model.classes_) == list(range(len(CLASS_NAMES))), f'{mission}: unexpected classes {model.classes_}'
+
+    preprocess = Pipeline([('select', selector), ('scale', scaler)])
+    scaler_onnx = convert_sklearn(preprocess, f'{mission}_scaler', [('float_input', FloatTensorType([None, len(feature_names)]))])
+    model_onnx = convert_sklearn(
+        model, f'{mission}_model', [('input', FloatTensorType([None, len(selected)]))],
+        options={id(model): {'zipmap': False}}
+    )
+
+    # Unselected columns never reach the model; selected ones default to the RobustScaler
+    # centre, the training median after imputation (a scaled value of 0)
+    centre = dict(zip(selected, scaler.center_))
+    defaults = {name: float(centre.get(name, 0.0)) for name in feature_names}
+
+    unmapped = set()
+    for models_dir in MODEL_DIRS:
+        mission_dir = models_dir / mission
+        (mission_dir / f'{mission}_scaler.onnx').write_bytes(scaler_onnx.SerializeToString())
+        (mission_dir / f'{mission}_model.onnx').write_bytes(model_onnx.SerializeToString())
+
+        features_path = mission_dir / f'{mission}_features.json'
+        features = json.loads(features_path.read_text(encoding='utf-8'))
+        unmapped.update(field for field, spec in features['inputs'].items() if spec['column'] not in feature_names)
+        features.update({
+            'feature_count': len(feature_names),
+            'feature_names': feature_names,
+            'default_strategy': f'training median of the {len(selected)} selected columns ({mission}_scaler.joblib centre), '
+                                '0 for columns the feature selector drops',
+            'defaults': defaults
+        })
+        write_json(features_path, features)
+
+    print(f"✅ {mission}: {len(feature_names)} input columns, {len(selected)} selected")
+    if unmapped:
+        # Their values are ignored when the vector is assembled (features.ts)
+        print(f"⚠️ {mission}: form fields without a model column: {sorted(unmapped)}")
+
+
+if __name__ == '__main__':
+    for mission, model_path in MISSIONS.items():
+        export_mission(mission, model_path)